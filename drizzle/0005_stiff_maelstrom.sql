@@ -0,0 +1,25 @@
+CREATE TABLE `block_hashes` (
+	`chain` text NOT NULL,
+	`block_number` integer NOT NULL,
+	`block_hash` text NOT NULL,
+	PRIMARY KEY(`chain`, `block_number`)
+);
+--> statement-breakpoint
+CREATE TABLE `dirty_dates` (
+	`chain` text NOT NULL,
+	`date` text NOT NULL,
+	`reason` text NOT NULL,
+	`marked_at` integer NOT NULL,
+	PRIMARY KEY(`chain`, `date`)
+);
+--> statement-breakpoint
+CREATE TABLE `reorgs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`chain` text NOT NULL,
+	`detected_at` integer NOT NULL,
+	`fork_block` integer NOT NULL,
+	`depth` integer NOT NULL,
+	`events_removed` integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `reorgs_chain_idx` ON `reorgs` (`chain`);
\ No newline at end of file
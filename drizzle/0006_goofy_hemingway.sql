@@ -0,0 +1,10 @@
+CREATE TABLE `private_activity_daily` (
+	`date` text NOT NULL,
+	`chain` text NOT NULL,
+	`shield_tx_count` integer DEFAULT 0 NOT NULL,
+	`transact_tx_count` integer DEFAULT 0 NOT NULL,
+	`unshield_tx_count` integer DEFAULT 0 NOT NULL,
+	`commitment_count` integer DEFAULT 0 NOT NULL,
+	`nullifier_count` integer DEFAULT 0 NOT NULL,
+	PRIMARY KEY(`date`, `chain`)
+);
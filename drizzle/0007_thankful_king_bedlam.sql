@@ -0,0 +1,12 @@
+CREATE TABLE `nft_activity_daily` (
+	`date` text NOT NULL,
+	`chain` text NOT NULL,
+	`token_id` integer NOT NULL,
+	`shield_count` integer DEFAULT 0 NOT NULL,
+	`unshield_count` integer DEFAULT 0 NOT NULL,
+	PRIMARY KEY(`date`, `chain`, `token_id`),
+	FOREIGN KEY (`token_id`) REFERENCES `tokens`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+ALTER TABLE `events` ADD `token_sub_id` text;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `token_standard` text DEFAULT 'erc20' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `protocol_fee_revenue_daily` (
+	`date` text NOT NULL,
+	`chain` text NOT NULL,
+	`token_id` integer NOT NULL,
+	`fee_type` text NOT NULL,
+	`total_fee_wei` text NOT NULL,
+	`total_fee_normalized` real DEFAULT 0 NOT NULL,
+	`total_fee_usd` real,
+	`tx_count` integer DEFAULT 0 NOT NULL,
+	PRIMARY KEY(`date`, `chain`, `token_id`, `fee_type`),
+	FOREIGN KEY (`token_id`) REFERENCES `tokens`(`id`) ON UPDATE no action ON DELETE no action
+);
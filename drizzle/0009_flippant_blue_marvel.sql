@@ -0,0 +1,16 @@
+CREATE TABLE `rpc_endpoints` (
+	`chain` text NOT NULL,
+	`endpoint_index` integer NOT NULL,
+	`url` text NOT NULL,
+	`latency_ms` real,
+	`error_rate` real DEFAULT 0 NOT NULL,
+	`request_count` integer DEFAULT 0 NOT NULL,
+	`error_count` integer DEFAULT 0 NOT NULL,
+	`rate_limit_count` integer DEFAULT 0 NOT NULL,
+	`timeout_count` integer DEFAULT 0 NOT NULL,
+	`cooling_down_until` integer,
+	`consistent` integer,
+	`last_error` text,
+	`updated_at` integer NOT NULL,
+	PRIMARY KEY(`chain`, `endpoint_index`)
+);
@@ -0,0 +1,6 @@
+CREATE TABLE `block_timestamps` (
+	`chain` text NOT NULL,
+	`block_number` integer NOT NULL,
+	`timestamp` integer NOT NULL,
+	PRIMARY KEY(`chain`, `block_number`)
+);
@@ -0,0 +1,18 @@
+CREATE TABLE `undecoded_logs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`chain` text NOT NULL,
+	`contract_name` text NOT NULL,
+	`address` text NOT NULL,
+	`block_number` integer NOT NULL,
+	`block_hash` text NOT NULL,
+	`tx_hash` text NOT NULL,
+	`tx_index` integer NOT NULL,
+	`log_index` integer NOT NULL,
+	`topic0` text,
+	`topics_json` text NOT NULL,
+	`data` text NOT NULL,
+	`quarantined_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `undecoded_logs_chain_topic0_idx` ON `undecoded_logs` (`chain`,`topic0`);--> statement-breakpoint
+CREATE UNIQUE INDEX `undecoded_logs_chain_tx_hash_log_index_unique` ON `undecoded_logs` (`chain`,`tx_hash`,`log_index`);
\ No newline at end of file
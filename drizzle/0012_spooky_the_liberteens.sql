@@ -0,0 +1,12 @@
+CREATE TABLE `raw_log_chunks` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`chain` text NOT NULL,
+	`from_block` integer NOT NULL,
+	`to_block` integer NOT NULL,
+	`log_count` integer NOT NULL,
+	`payload` blob NOT NULL,
+	`archived_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `raw_log_chunks_chain_to_block_idx` ON `raw_log_chunks` (`chain`,`to_block`);--> statement-breakpoint
+CREATE UNIQUE INDEX `raw_log_chunks_chain_from_block_unique` ON `raw_log_chunks` (`chain`,`from_block`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `tokens` ADD `name` text;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `metadata_error` text;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `metadata_checked_at` integer;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `token_list_entries` (
+	`list_name` text NOT NULL,
+	`chain` text NOT NULL,
+	`address` text NOT NULL,
+	`symbol` text NOT NULL,
+	`name` text NOT NULL,
+	`decimals` integer NOT NULL,
+	`imported_at` integer NOT NULL,
+	PRIMARY KEY(`list_name`, `chain`, `address`)
+);
+--> statement-breakpoint
+ALTER TABLE `tokens` ADD `verification` text DEFAULT 'unverified' NOT NULL;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `spam_signals` text;
\ No newline at end of file
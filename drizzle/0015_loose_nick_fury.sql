@@ -0,0 +1,7 @@
+CREATE TABLE `metric_samples` (
+	`name` text NOT NULL,
+	`labels` text NOT NULL,
+	`value` real NOT NULL,
+	`updated_at` integer NOT NULL,
+	PRIMARY KEY(`name`, `labels`)
+);
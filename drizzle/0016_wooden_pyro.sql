@@ -0,0 +1,18 @@
+CREATE TABLE `anonymity_set_daily` (
+	`date` text NOT NULL,
+	`chain` text NOT NULL,
+	`active_tree` integer NOT NULL,
+	`anonymity_set_size` integer NOT NULL,
+	`cumulative_commitments` integer NOT NULL,
+	`tree_count` integer NOT NULL,
+	PRIMARY KEY(`date`, `chain`)
+);
+--> statement-breakpoint
+CREATE TABLE `commitment_tree_daily` (
+	`date` text NOT NULL,
+	`chain` text NOT NULL,
+	`tree_number` integer NOT NULL,
+	`leaves` integer NOT NULL,
+	`commitments_added` integer DEFAULT 0 NOT NULL,
+	PRIMARY KEY(`date`, `chain`, `tree_number`)
+);
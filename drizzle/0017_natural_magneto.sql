@@ -0,0 +1,15 @@
+CREATE TABLE `relayer_gas_daily` (
+	`date` text NOT NULL,
+	`chain` text NOT NULL,
+	`unshield_tx_count` integer DEFAULT 0 NOT NULL,
+	`total_gas_used` integer DEFAULT 0 NOT NULL,
+	`gas_cost_native` real DEFAULT 0 NOT NULL,
+	`gas_cost_usd` real,
+	`fee_income_usd` real DEFAULT 0 NOT NULL,
+	`median_gas_cost_usd` real,
+	`median_margin_usd` real,
+	PRIMARY KEY(`date`, `chain`)
+);
+--> statement-breakpoint
+ALTER TABLE `events` ADD `gas_used` integer;--> statement-breakpoint
+ALTER TABLE `events` ADD `effective_gas_price_wei` text;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `job_runs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`job` text NOT NULL,
+	`pass_started_at` integer NOT NULL,
+	`attempt` integer DEFAULT 1 NOT NULL,
+	`status` text NOT NULL,
+	`started_at` integer NOT NULL,
+	`duration_ms` integer,
+	`row_count` integer,
+	`scope` text,
+	`error` text
+);
+--> statement-breakpoint
+CREATE INDEX `job_runs_job_started_idx` ON `job_runs` (`job`,`started_at`);
\ No newline at end of file
@@ -0,0 +1 @@
+DROP TABLE `relayer_fee_revenue_daily`;
\ No newline at end of file
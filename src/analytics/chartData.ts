@@ -1,11 +1,13 @@
 import { db, schema } from '../db/client';
-import { sql, eq, gte, lte, desc, and } from 'drizzle-orm';
+import { sql, eq, gte, lte, desc, and, inArray } from 'drizzle-orm';
+import { type SupportedChain } from '../indexer/chains';
+import { visibleTokenCondition, type TokenVisibility } from './tokenVerification';
 
 // ============================================================================
 // TypeScript Interfaces
 // ============================================================================
 
-type ChainName = 'ethereum' | 'polygon' | 'all';
+type ChainName = SupportedChain | 'all';
 
 interface TimeRangeParams {
   startDate?: string; // "YYYY-MM-DD"
@@ -15,6 +17,12 @@ interface TimeRangeParams {
 
 interface TokenFilterParams extends TimeRangeParams {
   tokenId?: number | null;
+  tokenVisibility?: TokenVisibility; // Which tokens an all-token query sums over; see defaultTokenVisibility()
+}
+
+interface TopTokensParams extends TimeRangeParams {
+  limit?: number;
+  tokenVisibility?: TokenVisibility; // Which tokens may be ranked; see defaultTokenVisibility()
 }
 
 interface TimeSeriesDataPoint {
@@ -40,6 +48,52 @@ interface ActivityIntensityDataPoint {
   movingAvg: number;
 }
 
+interface ProtocolFeeDataPoint {
+  date: string;
+  chain: string;
+  shieldFeesUsd: number;
+  unshieldFeesUsd: number;
+}
+
+interface RelayerGasDataPoint {
+  date: string;
+  chain: string;
+  unshieldTxCount: number;
+  gasCostUsd: number | null;
+  feeIncomeUsd: number;
+  medianGasCostUsd: number | null;
+  medianMarginUsd: number | null;
+}
+
+interface PrivateActivityDataPoint {
+  date: string;
+  shields: number;
+  transacts: number;
+  unshields: number;
+}
+
+interface AnonymitySetDataPoint {
+  date: string;
+  anonymitySetSize: number;
+  cumulativeCommitments: number;
+}
+
+interface CommitmentTreeDataPoint {
+  date: string;
+  chain: string;
+  treeNumber: number;
+  leaves: number;
+}
+
+interface ShieldedTvlDataPoint {
+  date: string;
+  chain: string;
+  tokenId: number;
+  symbol: string | null;
+  balance: number; // Token units shielded by the end of the day
+  valueUsd: number;
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -61,6 +115,9 @@ function buildDailyFlowsConditions(params: TokenFilterParams) {
   }
   if (params.tokenId) {
     conditions.push(eq(schema.dailyFlows.tokenId, params.tokenId));
+  } else {
+    const visible = visibleTokenCondition(schema.dailyFlows.tokenId, params.tokenVisibility);
+    if (visible) conditions.push(visible);
   }
 
   return conditions;
@@ -98,7 +155,7 @@ function buildEventsConditions(params: TimeRangeParams) {
  *
  * Data source: dailyFlows table
  * Calculation: SUM(totalDeposits) / SUM(depositTxCount) per day
- * Filters: time range, token, chain
+ * Filters: time range, token (or token visibility), chain
  *
  * @param params - Time range and optional token filter
  * @returns Array of {date, value} for line chart
@@ -131,7 +188,7 @@ export async function getMeanDepositAmountsOverTime(
  *
  * Data source: dailyFlows table
  * Calculation: SUM(totalWithdrawals) / SUM(withdrawalTxCount) per day
- * Filters: time range, token, chain
+ * Filters: time range, token (or token visibility), chain
  *
  * @param params - Time range and optional token filter
  * @returns Array of {date, value} for line chart
@@ -164,7 +221,7 @@ export async function getMeanWithdrawalAmountsOverTime(
  *
  * Data source: dailyFlows table
  * Calculation: SUM(totalDeposits + totalWithdrawals) per day
- * Filters: time range, token, chain
+ * Filters: time range, token (or token visibility), chain
  *
  * @param params - Time range and optional token filter
  * @returns Array of {date, value} for area chart
@@ -234,6 +291,7 @@ export async function getRelayerHHIOverTime(
  *
  * Data source: events table (queried directly for time-filtered heatmaps)
  * Uses SQLite strftime to extract hour and day-of-week from timestamps
+ * Nullifier events are skipped - they always accompany a Transact in the same tx
  * Performance: With 68K events, query runs <100ms
  * Filters: time range, chain
  *
@@ -244,6 +302,7 @@ export async function getHourlyActivityHeatmap(
   params: TimeRangeParams
 ): Promise<HourlyHeatmapDataPoint[]> {
   const conditions = buildEventsConditions(params);
+  conditions.push(sql`${schema.events.eventType} != 'nullifier'`);
 
   // Query events directly with hour and day-of-week extraction
   const results = await db.select({
@@ -267,7 +326,7 @@ export async function getHourlyActivityHeatmap(
  * Data source: dailyFlows table
  * Calculation: SUM(depositTxCount + withdrawalTxCount) per day
  * Moving average: Computed client-side for simplicity (7-day window)
- * Filters: time range, token, chain
+ * Filters: time range, token (or token visibility), chain
  *
  * @param params - Time range and optional token filter
  * @returns Array of {date, txCount, movingAvg} for line chart
@@ -306,13 +365,13 @@ export async function getActivityIntensityOverTime(
  *
  * Data source: tokens JOIN dailyFlows
  * Calculation: SUM(totalDeposits + totalWithdrawals) per token
- * Filters: time range, chain, limit
+ * Filters: time range, chain, token visibility, limit
  *
- * @param params - Time range, chain filter, and optional limit
+ * @param params - Time range, chain filter, token visibility and optional limit
  * @returns Array of {tokenId, symbol, totalVolume} for bar chart
  */
 export async function getTopTokensByVolume(
-  params: TimeRangeParams & { limit?: number }
+  params: TopTokensParams
 ): Promise<TokenVolumeDataPoint[]> {
   const limit = params.limit || 10;
   const conditions = [];
@@ -326,6 +385,10 @@ export async function getTopTokensByVolume(
   if (params.endDate) {
     conditions.push(lte(schema.dailyFlows.date, params.endDate));
   }
+  const visible = visibleTokenCondition(schema.tokens.id, params.tokenVisibility);
+  if (visible) {
+    conditions.push(visible);
+  }
 
   const results = await db.select({
     tokenId: schema.tokens.id,
@@ -351,13 +414,13 @@ export async function getTopTokensByVolume(
  *
  * Data source: tokens JOIN dailyFlows
  * Calculation: SUM(depositTxCount + withdrawalTxCount) per token
- * Filters: time range, chain, limit
+ * Filters: time range, chain, token visibility, limit
  *
- * @param params - Time range, chain filter, and optional limit
+ * @param params - Time range, chain filter, token visibility and optional limit
  * @returns Array of {tokenId, symbol, totalTxCount} for bar chart
  */
 export async function getTopTokensByTransactionCount(
-  params: TimeRangeParams & { limit?: number }
+  params: TopTokensParams
 ): Promise<Array<{ tokenId: number; symbol: string; totalTxCount: number }>> {
   const limit = params.limit || 10;
   const conditions = [];
@@ -371,6 +434,10 @@ export async function getTopTokensByTransactionCount(
   if (params.endDate) {
     conditions.push(lte(schema.dailyFlows.date, params.endDate));
   }
+  const visible = visibleTokenCondition(schema.tokens.id, params.tokenVisibility);
+  if (visible) {
+    conditions.push(visible);
+  }
 
   const results = await db.select({
     tokenId: schema.tokens.id,
@@ -474,7 +541,7 @@ export async function getTop5RelayerShareOverTime(
  *
  * Data source: dailyFlows.netFlow (pre-computed)
  * Positive values indicate privacy pool growth, negative indicate shrinkage
- * Filters: time range, token, chain
+ * Filters: time range, token (or token visibility), chain
  *
  * @param params - Time range and optional token filter
  * @returns Array of {date, value} for area chart
@@ -537,3 +604,294 @@ export async function getTokenDiversityOverTime(
     value: r.value || 0,
   }));
 }
+
+/**
+ * Fetches daily shield, private transfer and unshield transaction counts
+ *
+ * Data source: privateActivityDaily table (pre-computed)
+ * Transacts count only private transfers - unshield txs are counted once, as unshields
+ * Filters: time range, chain (no token filter - Transact events carry no token)
+ *
+ * @param params - Time range and chain filter
+ * @returns Array of {date, shields, transacts, unshields} for grouped bar chart
+ */
+export async function getPrivateActivityOverTime(
+  params: TimeRangeParams
+): Promise<PrivateActivityDataPoint[]> {
+  const conditions = [];
+
+  if (params.chain !== 'all') {
+    conditions.push(eq(schema.privateActivityDaily.chain, params.chain));
+  }
+  if (params.startDate) {
+    conditions.push(gte(schema.privateActivityDaily.date, params.startDate));
+  }
+  if (params.endDate) {
+    conditions.push(lte(schema.privateActivityDaily.date, params.endDate));
+  }
+
+  const results = await db.select({
+    date: schema.privateActivityDaily.date,
+    shields: sql<number>`SUM(${schema.privateActivityDaily.shieldTxCount})`,
+    transacts: sql<number>`SUM(${schema.privateActivityDaily.transactTxCount})`,
+    unshields: sql<number>`SUM(${schema.privateActivityDaily.unshieldTxCount})`,
+  })
+  .from(schema.privateActivityDaily)
+  .where(conditions.length > 0 ? and(...conditions) : undefined)
+  .groupBy(schema.privateActivityDaily.date)
+  .orderBy(schema.privateActivityDaily.date);
+
+  return results.map(r => ({
+    date: r.date,
+    shields: r.shields || 0,
+    transacts: r.transacts || 0,
+    unshields: r.unshields || 0,
+  }));
+}
+
+/**
+ * Fetches daily protocol fee income in USD, per chain
+ *
+ * Data source: protocolFeeRevenueDaily table (pre-computed, USD filled by normalizeUsd)
+ * Rows without a price contribute 0 USD
+ * Filters: time range, token (or token visibility), chain
+ *
+ * @param params - Time range and optional token filter
+ * @returns Array of {date, chain, shieldFeesUsd, unshieldFeesUsd} for stacked bar chart
+ */
+export async function getProtocolFeeRevenueOverTime(
+  params: TokenFilterParams
+): Promise<ProtocolFeeDataPoint[]> {
+  const conditions = [];
+
+  if (params.chain !== 'all') {
+    conditions.push(eq(schema.protocolFeeRevenueDaily.chain, params.chain));
+  }
+  if (params.startDate) {
+    conditions.push(gte(schema.protocolFeeRevenueDaily.date, params.startDate));
+  }
+  if (params.endDate) {
+    conditions.push(lte(schema.protocolFeeRevenueDaily.date, params.endDate));
+  }
+  if (params.tokenId) {
+    conditions.push(eq(schema.protocolFeeRevenueDaily.tokenId, params.tokenId));
+  } else {
+    const visible = visibleTokenCondition(schema.protocolFeeRevenueDaily.tokenId, params.tokenVisibility);
+    if (visible) conditions.push(visible);
+  }
+
+  const results = await db.select({
+    date: schema.protocolFeeRevenueDaily.date,
+    chain: schema.protocolFeeRevenueDaily.chain,
+    shieldFeesUsd: sql<number>`SUM(CASE WHEN ${schema.protocolFeeRevenueDaily.feeType} = 'shield' THEN ${schema.protocolFeeRevenueDaily.totalFeeUsd} ELSE 0 END)`,
+    unshieldFeesUsd: sql<number>`SUM(CASE WHEN ${schema.protocolFeeRevenueDaily.feeType} = 'unshield' THEN ${schema.protocolFeeRevenueDaily.totalFeeUsd} ELSE 0 END)`,
+  })
+  .from(schema.protocolFeeRevenueDaily)
+  .where(conditions.length > 0 ? and(...conditions) : undefined)
+  .groupBy(schema.protocolFeeRevenueDaily.date, schema.protocolFeeRevenueDaily.chain)
+  .orderBy(schema.protocolFeeRevenueDaily.date);
+
+  return results.map(r => ({
+    date: r.date,
+    chain: r.chain,
+    shieldFeesUsd: r.shieldFeesUsd || 0,
+    unshieldFeesUsd: r.unshieldFeesUsd || 0,
+  }));
+}
+
+/**
+ * Fetches daily relayer gas spending against relayer fee income, per chain
+ *
+ * Data source: relayerGasDaily table (pre-computed, aggregates only - no per-relayer rows)
+ * Medians are null on days below the privacy threshold or without a native token price,
+ * and are never combined across chains
+ * Filters: time range, chain
+ *
+ * @param params - Time range and chain filter
+ * @returns Array of {date, chain, unshieldTxCount, gasCostUsd, feeIncomeUsd, medianGasCostUsd, medianMarginUsd}
+ */
+export async function getRelayerGasOverTime(
+  params: TimeRangeParams
+): Promise<RelayerGasDataPoint[]> {
+  const conditions = [];
+
+  if (params.chain !== 'all') {
+    conditions.push(eq(schema.relayerGasDaily.chain, params.chain));
+  }
+  if (params.startDate) {
+    conditions.push(gte(schema.relayerGasDaily.date, params.startDate));
+  }
+  if (params.endDate) {
+    conditions.push(lte(schema.relayerGasDaily.date, params.endDate));
+  }
+
+  return db.select({
+    date: schema.relayerGasDaily.date,
+    chain: schema.relayerGasDaily.chain,
+    unshieldTxCount: schema.relayerGasDaily.unshieldTxCount,
+    gasCostUsd: schema.relayerGasDaily.gasCostUsd,
+    feeIncomeUsd: schema.relayerGasDaily.feeIncomeUsd,
+    medianGasCostUsd: schema.relayerGasDaily.medianGasCostUsd,
+    medianMarginUsd: schema.relayerGasDaily.medianMarginUsd,
+  })
+  .from(schema.relayerGasDaily)
+  .where(conditions.length > 0 ? and(...conditions) : undefined)
+  .orderBy(schema.relayerGasDaily.date);
+}
+
+/**
+ * Fetches the daily anonymity set size and cumulative commitments
+ *
+ * Data source: anonymitySetDaily table (pre-computed, one row per day per chain)
+ * The anonymity set is the leaf count of the tree new commitments go into, so
+ * it drops when a new tree starts. For 'all', chains are summed.
+ * Filters: time range, chain
+ *
+ * @param params - Time range and chain filter
+ * @returns Array of {date, anonymitySetSize, cumulativeCommitments} for line charts
+ */
+export async function getAnonymitySetOverTime(
+  params: TimeRangeParams
+): Promise<AnonymitySetDataPoint[]> {
+  const conditions = [];
+
+  if (params.chain !== 'all') {
+    conditions.push(eq(schema.anonymitySetDaily.chain, params.chain));
+  }
+  if (params.startDate) {
+    conditions.push(gte(schema.anonymitySetDaily.date, params.startDate));
+  }
+  if (params.endDate) {
+    conditions.push(lte(schema.anonymitySetDaily.date, params.endDate));
+  }
+
+  const results = await db.select({
+    date: schema.anonymitySetDaily.date,
+    anonymitySetSize: sql<number>`SUM(${schema.anonymitySetDaily.anonymitySetSize})`,
+    cumulativeCommitments: sql<number>`SUM(${schema.anonymitySetDaily.cumulativeCommitments})`,
+  })
+  .from(schema.anonymitySetDaily)
+  .where(conditions.length > 0 ? and(...conditions) : undefined)
+  .groupBy(schema.anonymitySetDaily.date)
+  .orderBy(schema.anonymitySetDaily.date);
+
+  return results.map(r => ({
+    date: r.date,
+    anonymitySetSize: r.anonymitySetSize || 0,
+    cumulativeCommitments: r.cumulativeCommitments || 0,
+  }));
+}
+
+/**
+ * Fetches the leaf count of every commitment tree on the days it grew
+ *
+ * Data source: commitmentTreeDaily table (pre-computed)
+ * A tree's first row is the day it started
+ * Filters: time range, chain
+ *
+ * @param params - Time range and chain filter
+ * @returns Array of {date, chain, treeNumber, leaves}, one line per chain and tree
+ */
+export async function getCommitmentTreeGrowth(
+  params: TimeRangeParams
+): Promise<CommitmentTreeDataPoint[]> {
+  const conditions = [];
+
+  if (params.chain !== 'all') {
+    conditions.push(eq(schema.commitmentTreeDaily.chain, params.chain));
+  }
+  if (params.startDate) {
+    conditions.push(gte(schema.commitmentTreeDaily.date, params.startDate));
+  }
+  if (params.endDate) {
+    conditions.push(lte(schema.commitmentTreeDaily.date, params.endDate));
+  }
+
+  return db.select({
+    date: schema.commitmentTreeDaily.date,
+    chain: schema.commitmentTreeDaily.chain,
+    treeNumber: schema.commitmentTreeDaily.treeNumber,
+    leaves: schema.commitmentTreeDaily.leaves,
+  })
+  .from(schema.commitmentTreeDaily)
+  .where(conditions.length > 0 ? and(...conditions) : undefined)
+  .orderBy(schema.commitmentTreeDaily.chain, schema.commitmentTreeDaily.treeNumber, schema.commitmentTreeDaily.date);
+}
+
+/**
+ * Fetches the estimated shielded balance and its USD value per token and chain
+ *
+ * Data source: dailyFlows.netFlow (running sum from the first indexed day) and tokenPricesDaily
+ * Balances are valued at the latest price on or before each date; tokens never
+ * priced are left out. A negative balance means withdrawals of funds shielded
+ * before indexing started and is valued at 0.
+ * Filters: time range (the running sum always starts from the first flow), token (or token visibility), chain
+ *
+ * @param params - Time range and optional token filter
+ * @returns Array of {date, chain, tokenId, symbol, balance, valueUsd}, one per held token per day with flows
+ */
+export async function getShieldedTvlOverTime(
+  params: TokenFilterParams
+): Promise<ShieldedTvlDataPoint[]> {
+  const conditions = buildDailyFlowsConditions({ ...params, startDate: undefined });
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const flows = await db.select({
+    date: schema.dailyFlows.date,
+    chain: schema.dailyFlows.chain,
+    tokenId: schema.dailyFlows.tokenId,
+    symbol: schema.tokens.symbol,
+    netFlow: schema.dailyFlows.netFlow,
+  })
+  .from(schema.dailyFlows)
+  .innerJoin(schema.tokens, eq(schema.tokens.id, schema.dailyFlows.tokenId))
+  .where(where)
+  .orderBy(schema.dailyFlows.date);
+
+  const prices = await db.select({
+    date: schema.tokenPricesDaily.date,
+    chain: schema.tokenPricesDaily.chain,
+    tokenId: schema.tokenPricesDaily.tokenId,
+    priceUsd: schema.tokenPricesDaily.priceUsd,
+  })
+  .from(schema.tokenPricesDaily)
+  .where(and(
+    inArray(schema.tokenPricesDaily.tokenId, db.selectDistinct({ tokenId: schema.dailyFlows.tokenId }).from(schema.dailyFlows).where(where)),
+    params.endDate ? lte(schema.tokenPricesDaily.date, params.endDate) : undefined
+  ))
+  .orderBy(schema.tokenPricesDaily.date);
+
+  const holdings = new Map<string, { chain: string; tokenId: number; symbol: string | null; balance: number; priceUsd: number | null }>();
+  const results: ShieldedTvlDataPoint[] = [];
+  let p = 0;
+
+  for (let f = 0; f < flows.length;) {
+    const date = flows[f].date;
+    for (; f < flows.length && flows[f].date === date; f++) {
+      const { chain, tokenId, symbol, netFlow } = flows[f];
+      const key = `${chain}:${tokenId}`;
+      const holding = holdings.get(key) ?? { chain, tokenId, symbol, balance: 0, priceUsd: null };
+      holding.balance += netFlow;
+      holdings.set(key, holding);
+    }
+    for (; p < prices.length && prices[p].date <= date; p++) {
+      const holding = holdings.get(`${prices[p].chain}:${prices[p].tokenId}`);
+      if (holding) holding.priceUsd = prices[p].priceUsd;
+    }
+
+    if (params.startDate && date < params.startDate) continue;
+    for (const h of holdings.values()) {
+      if (h.priceUsd === null) continue;
+      results.push({
+        date,
+        chain: h.chain,
+        tokenId: h.tokenId,
+        symbol: h.symbol,
+        balance: h.balance,
+        valueUsd: Math.max(h.balance, 0) * h.priceUsd,
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,17 @@
+import { classifyTokens } from './tokenVerification';
+
+// Re-runs the verification and spam heuristics over all tokens. Runs after
+// fetchPrices.ts, since a token without any cached price counts against it.
+export async function runClassification() {
+  console.log('Classifying tokens...');
+  const { verified, unverified, spam, changed } = await classifyTokens();
+  console.log(`Token classification complete: ${verified} verified, ${unverified} unverified, ${spam} spam (${changed} changed)`);
+}
+
+// Usage: bun run src/analytics/classifyTokens.ts
+if (import.meta.main) {
+  runClassification().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,102 @@
+import { db, schema } from '../db/client';
+import { sql, and, inArray } from 'drizzle-orm';
+
+// Railgun keeps commitments in depth-16 merkle trees. A batch that doesn't fit
+// in the current tree starts the next one at position 0, and a spend proves
+// membership in one whole tree: its leaves are the set a note hides in.
+
+const INSERT_CHUNK_SIZE = 100;
+
+interface CommitmentBatch {
+  chain: string;
+  date: string;
+  treeNumber: number;
+  endPosition: number; // Position after the batch's last commitment
+}
+
+function nextDate(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+// Cumulative, so a change on one date moves every later one: always a full rebuild
+export async function computeCommitmentTrees() {
+  console.log('Computing commitment trees and anonymity sets...');
+
+  // One row per Shield or Transact log. A Shield log is stored as one deposit
+  // per commitment (its position within the log in logIndex % 100); a Transact
+  // carries its commitment count. Duplicate copies of a log end at the same position.
+  const batches: CommitmentBatch[] = await db.select({
+    chain: schema.events.chain,
+    date: sql<string>`date(${schema.events.blockTimestamp}, 'unixepoch')`,
+    treeNumber: sql<number>`cast(json_extract(${schema.events.metadataJson}, '$.treeNumber') as integer)`,
+    endPosition: sql<number>`max(cast(json_extract(${schema.events.metadataJson}, '$.startPosition') as integer) + case
+      when ${schema.events.eventType} = 'transact' then coalesce(json_extract(${schema.events.metadataJson}, '$.commitmentCount'), 0)
+      else ${schema.events.logIndex} % 100 + 1 end)`,
+  })
+    .from(schema.events)
+    .where(and(
+      inArray(schema.events.eventType, ['deposit', 'transact']),
+      sql`json_extract(${schema.events.metadataJson}, '$.startPosition') is not null`
+    ))
+    .groupBy(schema.events.chain, schema.events.txHash, sql`${schema.events.logIndex} / 100`)
+    .orderBy(schema.events.chain, schema.events.blockNumber);
+
+  const treeRows: schema.CommitmentTreeDaily[] = [];
+  const setRows: schema.AnonymitySetDaily[] = [];
+
+  for (const chain of [...new Set(batches.map(b => b.chain))]) {
+    const chainBatches = batches.filter(b => b.chain === chain);
+    const leaves = new Map<number, number>();
+    let date = chainBatches[0].date;
+    let i = 0;
+
+    // Walk every day from the first batch to the last, carrying the trees forward
+    for (const lastDate = chainBatches[chainBatches.length - 1].date; date <= lastDate; date = nextDate(date)) {
+      const leavesAtStart = new Map<number, number>();
+      for (; i < chainBatches.length && chainBatches[i].date === date; i++) {
+        const { treeNumber, endPosition } = chainBatches[i];
+        const current = leaves.get(treeNumber) ?? 0;
+        if (!leavesAtStart.has(treeNumber)) leavesAtStart.set(treeNumber, current);
+        if (endPosition > current) leaves.set(treeNumber, endPosition);
+      }
+
+      for (const [treeNumber, before] of leavesAtStart) {
+        const after = leaves.get(treeNumber)!;
+        treeRows.push({ date, chain, treeNumber, leaves: after, commitmentsAdded: after - before });
+      }
+
+      const activeTree = Math.max(...leaves.keys());
+      setRows.push({
+        date,
+        chain,
+        activeTree,
+        anonymitySetSize: leaves.get(activeTree)!,
+        cumulativeCommitments: [...leaves.values()].reduce((sum, n) => sum + n, 0),
+        treeCount: leaves.size,
+      });
+    }
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.delete(schema.commitmentTreeDaily);
+    await tx.delete(schema.anonymitySetDaily);
+    for (let j = 0; j < treeRows.length; j += INSERT_CHUNK_SIZE) {
+      await tx.insert(schema.commitmentTreeDaily).values(treeRows.slice(j, j + INSERT_CHUNK_SIZE));
+    }
+    for (let j = 0; j < setRows.length; j += INSERT_CHUNK_SIZE) {
+      await tx.insert(schema.anonymitySetDaily).values(setRows.slice(j, j + INSERT_CHUNK_SIZE));
+    }
+  });
+
+  console.log(`Commitment trees computed from ${batches.length} commitment batches: ${treeRows.length} tree-days, ${setRows.length} anonymity set rows`);
+}
+
+// Usage: bun run src/analytics/commitmentTrees.ts
+if (import.meta.main) {
+  computeCommitmentTrees().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -1,16 +1,17 @@
 import { db, schema } from '../db/client';
-import { sql } from 'drizzle-orm';
+import { sql, eq, and } from 'drizzle-orm';
+import { describeScope, dirtyScopeFromArgs, eventsOnDirtyDates, onDirtyDates, type DirtyScope } from './dirtyDates';
 
 // Set to 1 to include all tokens (previously 3 for privacy, but excluded too many low-volume tokens)
 const MIN_TX_THRESHOLD = 1;
 
-async function computeDailyFlows() {
-  console.log('Computing daily flows...');
+export async function computeDailyFlows(scope: DirtyScope | null = null) {
+  console.log(`Computing daily flows${describeScope(scope)}...`);
 
   // Clear existing data
-  await db.delete(schema.dailyFlows);
+  await db.delete(schema.dailyFlows).where(onDirtyDates(scope, schema.dailyFlows.chain, schema.dailyFlows.date));
 
-  // Query aggregated flows per date per token per chain
+  // Query aggregated flows per date per token per chain (ERC-20 only; NFTs go to nftActivity.ts)
   const flows = await db
     .select({
       date: sql<string>`date(${schema.events.blockTimestamp}, 'unixepoch')`.as('date'),
@@ -22,7 +23,11 @@ async function computeDailyFlows() {
       withdrawalTxCount: sql<number>`sum(case when ${schema.events.eventType} = 'withdrawal' then 1 else 0 end)`,
     })
     .from(schema.events)
-    .where(sql`${schema.events.eventType} in ('deposit', 'withdrawal') and ${schema.events.tokenId} is not null`)
+    .innerJoin(schema.tokens, eq(schema.tokens.id, schema.events.tokenId))
+    .where(and(
+      sql`${schema.events.eventType} in ('deposit', 'withdrawal') and ${schema.tokens.tokenStandard} = 'erc20'`,
+      eventsOnDirtyDates(scope)
+    ))
     .groupBy(sql`date(${schema.events.blockTimestamp}, 'unixepoch')`, schema.events.chain, schema.events.tokenId);
 
   let inserted = 0;
@@ -59,4 +64,10 @@ async function computeDailyFlows() {
   console.log(`Daily flows computed: ${inserted} inserted, ${skipped} skipped (below threshold)`);
 }
 
-computeDailyFlows().catch(console.error);
+// Usage: bun run src/analytics/dailyFlows.ts [--dirty-until <unix seconds>]
+if (import.meta.main) {
+  dirtyScopeFromArgs().then(computeDailyFlows).catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
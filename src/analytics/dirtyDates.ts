@@ -0,0 +1,59 @@
+import { parseArgs } from 'node:util';
+import { lte, sql, type SQL } from 'drizzle-orm';
+import { type SQLiteColumn } from 'drizzle-orm/sqlite-core';
+import { db, schema } from '../db/client';
+
+// The daily aggregation scripts rebuild their table from scratch by default.
+// Given --dirty-until <unix seconds> (or a scope, when start-all.ts runs them
+// in-process) they only recompute the (chain, date) pairs in dirty_dates
+// marked up to then; start-all.ts clears those afterwards.
+export interface DirtyScope {
+  until: number;
+  dates: number;
+}
+
+function dirtyPairs(until: number): SQL {
+  return sql`(select ${schema.dirtyDates.chain}, ${schema.dirtyDates.date} from ${schema.dirtyDates} where ${schema.dirtyDates.markedAt} <= ${until})`;
+}
+
+// null (rebuild everything) unless the script was started with --dirty-until
+export async function dirtyScopeFromArgs(): Promise<DirtyScope | null> {
+  const { values } = parseArgs({ options: { 'dirty-until': { type: 'string' } } });
+  if (values['dirty-until'] === undefined) return null;
+
+  const until = Number(values['dirty-until']);
+  if (!Number.isInteger(until)) {
+    throw new Error(`--dirty-until takes unix seconds, got "${values['dirty-until']}"`);
+  }
+  return { until, dates: await countDirtyDates(until) };
+}
+
+// " for 3 dirty dates", or nothing for a full rebuild
+export function describeScope(scope: DirtyScope | null): string {
+  return scope ? ` for ${scope.dates} dirty dates` : '';
+}
+
+// Rows of an aggregate table on a dirty date, or undefined (every row) without a scope
+export function onDirtyDates(scope: DirtyScope | null, chain: SQLiteColumn, date: SQLiteColumn): SQL | undefined {
+  return scope ? sql`(${chain}, ${date}) in ${dirtyPairs(scope.until)}` : undefined;
+}
+
+// Events on a dirty date, or undefined without a scope
+export function eventsOnDirtyDates(scope: DirtyScope | null): SQL | undefined {
+  return scope
+    ? sql`(${schema.events.chain}, date(${schema.events.blockTimestamp}, 'unixepoch')) in ${dirtyPairs(scope.until)}`
+    : undefined;
+}
+
+export async function countDirtyDates(until: number): Promise<number> {
+  const row = await db.select({ count: sql<number>`count(*)` })
+    .from(schema.dirtyDates)
+    .where(lte(schema.dirtyDates.markedAt, until))
+    .get();
+  return row?.count ?? 0;
+}
+
+// Dates marked again after `until` stay for the next run
+export async function clearDirtyDates(until: number): Promise<void> {
+  await db.delete(schema.dirtyDates).where(lte(schema.dirtyDates.markedAt, until));
+}
@@ -1,8 +1,10 @@
 import { db, schema } from '../db/client';
-import { sql, eq, and } from 'drizzle-orm';
+import { sql, eq, and, or } from 'drizzle-orm';
+import { isSupportedChain, CHAINS, CHAIN_NAMES } from '../indexer/chains';
 
 // DeFiLlama historical price endpoint
-// GET https://coins.llama.fi/prices/historical/{timestamp}/ethereum:{address}
+// GET https://coins.llama.fi/prices/historical/{timestamp}/{chain}:{address}
+// where {chain} is the chain's defillamaKey from the chain registry
 const DEFILLAMA_BASE = 'https://coins.llama.fi';
 
 // Rate limit: ~300ms between requests to be polite
@@ -28,16 +30,24 @@ function dateToTimestamp(date: string): number {
   return Math.floor(new Date(`${date}T12:00:00Z`).getTime() / 1000);
 }
 
+// DeFiLlama coin ID for a token, e.g. "arbitrum:0xabc..."
+function toCoinId(chain: string, address: string): string {
+  const key = isSupportedChain(chain) ? CHAINS[chain].defillamaKey : chain;
+  return `${key}:${address}`.toLowerCase();
+}
+
 // Batch fetch prices for multiple tokens at a single timestamp
 // DeFiLlama supports comma-separated coin IDs
+// Returns prices keyed by lowercased coin ID (the same address can exist on several chains)
 async function fetchPricesAtTimestamp(
   tokenAddresses: { address: string; chain: string }[],
-  timestamp: number
+  timestamp: number,
+  signal?: AbortSignal
 ): Promise<Map<string, number>> {
-  const coinIds = tokenAddresses.map(t => `${t.chain}:${t.address}`).join(',');
+  const coinIds = tokenAddresses.map(t => toCoinId(t.chain, t.address)).join(',');
   const url = `${DEFILLAMA_BASE}/prices/historical/${timestamp}/${coinIds}`;
 
-  const res = await fetch(url);
+  const res = await fetch(url, { signal });
   if (!res.ok) {
     console.warn(`DeFiLlama returned ${res.status} for timestamp ${timestamp}`);
     return new Map();
@@ -49,15 +59,15 @@ async function fetchPricesAtTimestamp(
   for (const [coinId, info] of Object.entries(data.coins)) {
     if (info.price != null && info.confidence > 0.5) {
       // coinId format: "ethereum:0xabc..."
-      const address = coinId.split(':')[1];
-      prices.set(address.toLowerCase(), info.price);
+      prices.set(coinId.toLowerCase(), info.price);
     }
   }
 
   return prices;
 }
 
-async function fetchAndStorePrices() {
+// `signal` stops the run between requests, e.g. when the scheduler gives up on it
+export async function fetchAndStorePrices(signal?: AbortSignal) {
   console.log('Fetching token prices from DeFiLlama...');
 
   // Get all unique (date, chain, tokenId) combos from daily_flows that don't have prices yet
@@ -70,6 +80,23 @@ async function fetchAndStorePrices() {
     .from(schema.dailyFlows)
     .groupBy(schema.dailyFlows.date, schema.dailyFlows.chain, schema.dailyFlows.tokenId);
 
+  // Relayer gas is valued through each chain's wrapped native token (see relayerGas.ts),
+  // so it gets a price on every day of the chain with flows, shielded that day or not
+  const wrappedNatives = await db
+    .select({ id: schema.tokens.id, chain: schema.tokens.chain })
+    .from(schema.tokens)
+    .where(or(...CHAIN_NAMES.map(name =>
+      and(eq(schema.tokens.chain, name), eq(schema.tokens.address, CHAINS[name].wrappedNative))
+    )));
+  const flowKeys = new Set(flowDates.map(f => `${f.date}|${f.chain}|${f.tokenId}`));
+  for (const day of new Set(flowDates.map(f => `${f.date}|${f.chain}`))) {
+    const [date, chain] = day.split('|');
+    const native = wrappedNatives.find(t => t.chain === chain);
+    if (native && !flowKeys.has(`${day}|${native.id}`)) {
+      flowDates.push({ date, chain, tokenId: native.id });
+    }
+  }
+
   // Get existing prices to skip
   const existingPrices = await db
     .select({
@@ -133,13 +160,14 @@ async function fetchAndStorePrices() {
     // Chunk into batches of 50 to be safe
     const BATCH_SIZE = 50;
     for (let i = 0; i < tokenAddresses.length; i += BATCH_SIZE) {
+      signal?.throwIfAborted();
       const batch = tokenAddresses.slice(i, i + BATCH_SIZE);
 
       try {
-        const prices = await fetchPricesAtTimestamp(batch, timestamp);
+        const prices = await fetchPricesAtTimestamp(batch, timestamp, signal);
 
         for (const item of batch) {
-          const price = prices.get(item.address.toLowerCase());
+          const price = prices.get(toCoinId(item.chain, item.address));
           if (price != null) {
             await db.insert(schema.tokenPricesDaily).values({
               date,
@@ -169,4 +197,10 @@ async function fetchAndStorePrices() {
   console.log(`Done! ${fetched} prices stored, ${failed} unavailable.`);
 }
 
-fetchAndStorePrices().catch(console.error);
+// Usage: bun run src/analytics/fetchPrices.ts
+if (import.meta.main) {
+  fetchAndStorePrices().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,32 @@
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { classifyTokens, importTokenList, parseTokenList } from './tokenVerification';
+
+// A directory argument imports every .json file in it
+function listFiles(paths: string[]): string[] {
+  return paths.flatMap(path => statSync(path).isDirectory()
+    ? readdirSync(path).filter(f => f.endsWith('.json')).sort().map(f => join(path, f))
+    : [path]);
+}
+
+// Usage: bun run src/analytics/importTokenLists.ts <list.json | directory>...
+async function main() {
+  const paths = process.argv.slice(2);
+  if (paths.length === 0) {
+    throw new Error('Usage: tokens:import-list <list.json | directory>...');
+  }
+
+  for (const file of listFiles(paths)) {
+    const list = parseTokenList(JSON.parse(readFileSync(file, 'utf8')), file);
+    const { imported, otherChains } = await importTokenList(list);
+    console.log(`${list.name} (${file}): ${imported} tokens imported, ${otherChains} on chains not indexed, ${list.invalid} invalid entries skipped`);
+  }
+
+  const { verified, unverified, spam, changed } = await classifyTokens();
+  console.log(`Tokens: ${verified} verified, ${unverified} unverified, ${spam} spam (${changed} changed)`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+import { db, schema } from '../db/client';
+import { sql, eq, and } from 'drizzle-orm';
+import { describeScope, dirtyScopeFromArgs, eventsOnDirtyDates, onDirtyDates, type DirtyScope } from './dirtyDates';
+
+// Individual NFTs are far more identifying than fungible amounts, so a
+// collection's day is only published once it has this many shields + unshields
+const MIN_TX_THRESHOLD = 3;
+
+export async function computeNftActivity(scope: DirtyScope | null = null) {
+  console.log(`Computing daily NFT activity${describeScope(scope)}...`);
+
+  // Clear existing data
+  await db.delete(schema.nftActivityDaily).where(onDirtyDates(scope, schema.nftActivityDaily.chain, schema.nftActivityDaily.date));
+
+  // Count NFT shields/unshields per date per collection per chain.
+  // tokenSubId is deliberately never selected - only collection-level counts leave this query.
+  const activity = await db.select({
+    date: sql<string>`date(${schema.events.blockTimestamp}, 'unixepoch')`,
+    chain: schema.events.chain,
+    tokenId: schema.events.tokenId,
+    shieldCount: sql<number>`sum(case when ${schema.events.eventType} = 'deposit' then 1 else 0 end)`,
+    unshieldCount: sql<number>`sum(case when ${schema.events.eventType} = 'withdrawal' then 1 else 0 end)`,
+  })
+  .from(schema.events)
+  .innerJoin(schema.tokens, eq(schema.tokens.id, schema.events.tokenId))
+  .where(and(
+    sql`${schema.events.eventType} in ('deposit', 'withdrawal') and ${schema.tokens.tokenStandard} != 'erc20'`,
+    eventsOnDirtyDates(scope)
+  ))
+  .groupBy(
+    sql`date(${schema.events.blockTimestamp}, 'unixepoch')`,
+    schema.events.chain,
+    schema.events.tokenId
+  );
+
+  let inserted = 0;
+  let skipped = 0;
+
+  for (const row of activity) {
+    if (!row.tokenId) continue;
+
+    // Privacy guardrail: skip small cohorts
+    if ((row.shieldCount || 0) + (row.unshieldCount || 0) < MIN_TX_THRESHOLD) {
+      skipped++;
+      continue;
+    }
+
+    await db.insert(schema.nftActivityDaily).values({
+      date: row.date,
+      chain: row.chain,
+      tokenId: row.tokenId,
+      shieldCount: row.shieldCount || 0,
+      unshieldCount: row.unshieldCount || 0,
+    });
+    inserted++;
+  }
+
+  console.log(`NFT activity computed: ${inserted} inserted, ${skipped} skipped (below threshold)`);
+}
+
+// Usage: bun run src/analytics/nftActivity.ts [--dirty-until <unix seconds>]
+if (import.meta.main) {
+  dirtyScopeFromArgs().then(computeNftActivity).catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
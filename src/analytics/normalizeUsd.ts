@@ -1,10 +1,11 @@
 import { db, schema } from '../db/client';
 import { sql } from 'drizzle-orm';
 
-// Back-populates USD columns in daily_flows by joining with token_prices_daily.
-// Runs after dailyFlows.ts (which wipes and re-inserts rows with null USD) and
-// fetchPrices.ts (which populates token_prices_daily from DeFiLlama).
-async function normalizeUsd() {
+// Back-populates USD columns in daily_flows and protocol_fee_revenue_daily by
+// joining with token_prices_daily. Runs after dailyFlows.ts / protocolFeeRevenue.ts
+// (which wipe and re-insert rows with null USD) and fetchPrices.ts (which
+// populates token_prices_daily from DeFiLlama).
+export async function normalizeUsd() {
   console.log('Normalizing daily_flows to USD...');
 
   await db.run(sql`
@@ -19,6 +20,15 @@ async function normalizeUsd() {
       AND daily_flows.token_id = p.token_id
   `);
 
+  await db.run(sql`
+    UPDATE protocol_fee_revenue_daily
+    SET total_fee_usd = total_fee_normalized * p.price_usd
+    FROM token_prices_daily AS p
+    WHERE protocol_fee_revenue_daily.date     = p.date
+      AND protocol_fee_revenue_daily.chain    = p.chain
+      AND protocol_fee_revenue_daily.token_id = p.token_id
+  `);
+
   const [stats] = await db
     .select({
       filled: sql<number>`sum(case when ${schema.dailyFlows.totalDepositsUsd} is not null then 1 else 0 end)`,
@@ -34,4 +44,10 @@ async function normalizeUsd() {
   );
 }
 
-normalizeUsd().catch(console.error);
+// Usage: bun run src/analytics/normalizeUsd.ts
+if (import.meta.main) {
+  normalizeUsd().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
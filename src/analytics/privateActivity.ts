@@ -0,0 +1,61 @@
+import { db, schema } from '../db/client';
+import { sql } from 'drizzle-orm';
+import { describeScope, dirtyScopeFromArgs, eventsOnDirtyDates, onDirtyDates, type DirtyScope } from './dirtyDates';
+
+export async function computePrivateActivity(scope: DirtyScope | null = null) {
+  console.log(`Computing daily private activity${describeScope(scope)}...`);
+
+  // Clear existing data
+  await db.delete(schema.privateActivityDaily).where(onDirtyDates(scope, schema.privateActivityDaily.chain, schema.privateActivityDaily.date));
+
+  // One row per transaction, flagging which kinds of events it emitted.
+  // An unshield is itself a Transact call, so a tx is only counted as a
+  // private transfer when it has a Transact event and no Unshield.
+  const txs = await db.select({
+    date: sql<string>`date(${schema.events.blockTimestamp}, 'unixepoch')`,
+    chain: schema.events.chain,
+    hasShield: sql<number>`max(${schema.events.eventType} = 'deposit')`,
+    hasTransact: sql<number>`max(${schema.events.eventType} = 'transact')`,
+    hasUnshield: sql<number>`max(${schema.events.eventType} = 'withdrawal')`,
+    commitments: sql<number>`sum(case when ${schema.events.eventType} = 'transact' then coalesce(json_extract(${schema.events.metadataJson}, '$.commitmentCount'), 0) else 0 end)`,
+    nullifiers: sql<number>`sum(case when ${schema.events.eventType} = 'nullifier' then coalesce(json_extract(${schema.events.metadataJson}, '$.nullifierCount'), 0) else 0 end)`,
+  })
+  .from(schema.events)
+  .where(eventsOnDirtyDates(scope))
+  .groupBy(
+    sql`date(${schema.events.blockTimestamp}, 'unixepoch')`,
+    schema.events.chain,
+    schema.events.txHash
+  );
+
+  const daily = new Map<string, schema.PrivateActivityDaily>();
+  for (const tx of txs) {
+    const key = `${tx.date}:${tx.chain}`;
+    let row = daily.get(key);
+    if (!row) {
+      row = { date: tx.date, chain: tx.chain, shieldTxCount: 0, transactTxCount: 0, unshieldTxCount: 0, commitmentCount: 0, nullifierCount: 0 };
+      daily.set(key, row);
+    }
+    if (tx.hasShield) row.shieldTxCount++;
+    if (tx.hasUnshield) row.unshieldTxCount++;
+    else if (tx.hasTransact) row.transactTxCount++;
+    row.commitmentCount += tx.commitments || 0;
+    row.nullifierCount += tx.nullifiers || 0;
+  }
+
+  let inserted = 0;
+  for (const row of daily.values()) {
+    await db.insert(schema.privateActivityDaily).values(row);
+    inserted++;
+  }
+
+  console.log(`Private activity computed: ${inserted} rows inserted from ${txs.length} transactions`);
+}
+
+// Usage: bun run src/analytics/privateActivity.ts [--dirty-until <unix seconds>]
+if (import.meta.main) {
+  dirtyScopeFromArgs().then(computePrivateActivity).catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
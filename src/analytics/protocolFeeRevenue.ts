@@ -0,0 +1,111 @@
+import { db, schema } from '../db/client';
+import { sql, eq, and, inArray, isNotNull } from 'drizzle-orm';
+import { describeScope, dirtyScopeFromArgs, eventsOnDirtyDates, onDirtyDates, type DirtyScope } from './dirtyDates';
+
+// Railgun charges a protocol fee on both sides of the pool:
+// - Shield: the 5-param Shield event lists one fee per commitment (metadata.fee on each deposit row)
+// - Unshield: the Unshield event's fee (metadata.fee on each withdrawal row)
+// Both go to the protocol treasury. Relayers are paid separately, inside the pool.
+export async function computeProtocolFeeRevenue(scope: DirtyScope | null = null) {
+  console.log(`Computing protocol fee revenue${describeScope(scope)}...`);
+
+  // Clear existing data
+  await db.delete(schema.protocolFeeRevenueDaily).where(onDirtyDates(scope, schema.protocolFeeRevenueDaily.chain, schema.protocolFeeRevenueDaily.date));
+
+  const feeEvents = await db
+    .select({
+      date: sql<string>`date(${schema.events.blockTimestamp}, 'unixepoch')`.as('date'),
+      chain: schema.events.chain,
+      eventType: schema.events.eventType,
+      tokenId: schema.events.tokenId,
+      metadataJson: schema.events.metadataJson,
+      tokenDecimals: schema.tokens.decimals,
+    })
+    .from(schema.events)
+    .innerJoin(schema.tokens, eq(schema.events.tokenId, schema.tokens.id))
+    .where(and(
+      inArray(schema.events.eventType, ['deposit', 'withdrawal']),
+      eq(schema.tokens.tokenStandard, 'erc20'),
+      isNotNull(schema.events.metadataJson),
+      eventsOnDirtyDates(scope)
+    ));
+
+  // Group by date, chain, token, and fee type
+  const grouped = new Map<string, {
+    date: string;
+    chain: string;
+    tokenId: number;
+    feeType: 'shield' | 'unshield';
+    tokenDecimals: number;
+    totalFeeWei: bigint;
+    txCount: number;
+  }>();
+
+  let withoutFee = 0;
+  let withoutDecimals = 0;
+  for (const e of feeEvents) {
+    if (!e.tokenId || !e.metadataJson) continue;
+
+    // A guess would be off by orders of magnitude; tokens:refresh marks the dates dirty once it finds them
+    if (e.tokenDecimals === null) {
+      withoutDecimals++;
+      continue;
+    }
+
+    let feeWei: bigint;
+    try {
+      const metadata = JSON.parse(e.metadataJson);
+      // Legacy 4-param Shields carry no fee field
+      if (typeof metadata?.fee !== 'string') {
+        withoutFee++;
+        continue;
+      }
+      feeWei = BigInt(metadata.fee);
+    } catch {
+      console.warn(`Invalid fee metadata: ${e.metadataJson}`);
+      continue;
+    }
+
+    const feeType = e.eventType === 'deposit' ? 'shield' : 'unshield';
+    const key = `${e.date}|${e.chain}|${e.tokenId}|${feeType}`;
+
+    if (!grouped.has(key)) {
+      grouped.set(key, {
+        date: e.date,
+        chain: e.chain,
+        tokenId: e.tokenId,
+        feeType,
+        tokenDecimals: e.tokenDecimals,
+        totalFeeWei: 0n,
+        txCount: 0,
+      });
+    }
+
+    const group = grouped.get(key)!;
+    group.totalFeeWei += feeWei;
+    group.txCount++;
+  }
+
+  // USD values are filled in by normalizeUsd.ts once prices are cached
+  for (const data of grouped.values()) {
+    await db.insert(schema.protocolFeeRevenueDaily).values({
+      date: data.date,
+      chain: data.chain,
+      tokenId: data.tokenId,
+      feeType: data.feeType,
+      totalFeeWei: data.totalFeeWei.toString(),
+      totalFeeNormalized: Number(data.totalFeeWei) / Math.pow(10, data.tokenDecimals),
+      txCount: data.txCount,
+    });
+  }
+
+  console.log(`Protocol fee revenue computed for ${grouped.size} date-token-fee type combinations (${withoutFee} events without a fee field, ${withoutDecimals} skipped until their token's decimals are known)`);
+}
+
+// Usage: bun run src/analytics/protocolFeeRevenue.ts [--dirty-until <unix seconds>]
+if (import.meta.main) {
+  dirtyScopeFromArgs().then(computeProtocolFeeRevenue).catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
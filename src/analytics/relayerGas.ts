@@ -0,0 +1,144 @@
+import { db, schema } from '../db/client';
+import { sql, eq, isNotNull, and, or } from 'drizzle-orm';
+import { CHAINS, CHAIN_NAMES, isSupportedChain } from '../indexer/chains';
+import { describeScope, dirtyScopeFromArgs, eventsOnDirtyDates, onDirtyDates, type DirtyScope } from './dirtyDates';
+
+// Medians over fewer unshields than this would describe individual transactions
+const MIN_TX_THRESHOLD = 3;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export async function computeRelayerGas(scope: DirtyScope | null = null) {
+  console.log(`Computing relayer gas economics${describeScope(scope)}...`);
+
+  // Clear existing data
+  await db.delete(schema.relayerGasDaily).where(onDirtyDates(scope, schema.relayerGasDaily.chain, schema.relayerGasDaily.date));
+
+  // One row per relayed unshield transaction; its events all repeat the receipt
+  const unshieldTxs = await db
+    .select({
+      date: sql<string>`date(${schema.events.blockTimestamp}, 'unixepoch')`.as('date'),
+      chain: schema.events.chain,
+      txHash: schema.events.txHash,
+      gasUsed: sql<number>`max(${schema.events.gasUsed})`,
+      effectiveGasPriceWei: sql<string>`max(${schema.events.effectiveGasPriceWei})`,
+    })
+    .from(schema.events)
+    .where(and(
+      eq(schema.events.eventType, 'withdrawal'),
+      isNotNull(schema.events.relayerAddress),
+      isNotNull(schema.events.gasUsed),
+      isNotNull(schema.events.effectiveGasPriceWei),
+      eventsOnDirtyDates(scope)
+    ))
+    .groupBy(schema.events.chain, schema.events.txHash);
+
+  // Explicit relayer payments valued at the day's price (unpriced ones count as 0). Fees paid
+  // with a private note are invisible, so income and margins are only a lower bound
+  const payments = await db
+    .select({
+      date: sql<string>`date(${schema.events.blockTimestamp}, 'unixepoch')`.as('date'),
+      chain: schema.events.chain,
+      txHash: schema.events.txHash,
+      feeUsd: sql<number>`sum(${schema.events.amountNormalized} * ${schema.tokenPricesDaily.priceUsd})`,
+    })
+    .from(schema.events)
+    .innerJoin(schema.tokenPricesDaily, and(
+      eq(schema.tokenPricesDaily.chain, schema.events.chain),
+      eq(schema.tokenPricesDaily.tokenId, schema.events.tokenId),
+      eq(schema.tokenPricesDaily.date, sql`date(${schema.events.blockTimestamp}, 'unixepoch')`)
+    ))
+    .where(and(
+      eq(schema.events.eventType, 'relayer_payment'),
+      isNotNull(schema.events.amountNormalized),
+      eventsOnDirtyDates(scope)
+    ))
+    .groupBy(schema.events.chain, schema.events.txHash);
+
+  // Gas is paid in the native token, priced through its wrapped ERC-20
+  const nativePrices = await db
+    .select({
+      date: schema.tokenPricesDaily.date,
+      chain: schema.tokenPricesDaily.chain,
+      priceUsd: schema.tokenPricesDaily.priceUsd,
+    })
+    .from(schema.tokenPricesDaily)
+    .innerJoin(schema.tokens, eq(schema.tokens.id, schema.tokenPricesDaily.tokenId))
+    .where(or(...CHAIN_NAMES.map(name =>
+      and(eq(schema.tokens.chain, name), eq(schema.tokens.address, CHAINS[name].wrappedNative))
+    )));
+  const nativePriceByDay = new Map(nativePrices.map(p => [`${p.date}|${p.chain}`, p.priceUsd]));
+
+  const feeByTx = new Map(payments.map(p => [`${p.chain}|${p.txHash}`, p.feeUsd || 0]));
+  const feeIncomeByDay = new Map<string, number>();
+  for (const p of payments) {
+    const key = `${p.date}|${p.chain}`;
+    feeIncomeByDay.set(key, (feeIncomeByDay.get(key) ?? 0) + (p.feeUsd || 0));
+  }
+
+  // Group by date and chain
+  const byDateAndChain = new Map<string, Array<{ txHash: string; gasUsed: number; gasCostNative: number }>>();
+  for (const tx of unshieldTxs) {
+    if (!tx.date || !tx.chain) continue;
+    const key = `${tx.date}|${tx.chain}`;
+    if (!byDateAndChain.has(key)) {
+      byDateAndChain.set(key, []);
+    }
+    byDateAndChain.get(key)!.push({
+      txHash: tx.txHash,
+      gasUsed: tx.gasUsed,
+      gasCostNative: Number(BigInt(tx.gasUsed) * BigInt(tx.effectiveGasPriceWei)) / 1e18,
+    });
+  }
+
+  // Days with relayer payments but no unshield receipts still report their income
+  for (const key of feeIncomeByDay.keys()) {
+    if (!byDateAndChain.has(key)) byDateAndChain.set(key, []);
+  }
+
+  const rows: schema.RelayerGasDaily[] = [];
+  for (const [key, txs] of byDateAndChain) {
+    const [date, chain] = key.split('|');
+    const nativePrice = nativePriceByDay.get(key) ?? null;
+    const gasCostNative = txs.reduce((sum, tx) => sum + tx.gasCostNative, 0);
+    const medianPrice = txs.length >= MIN_TX_THRESHOLD ? nativePrice : null;
+
+    rows.push({
+      date,
+      chain,
+      unshieldTxCount: txs.length,
+      totalGasUsed: txs.reduce((sum, tx) => sum + tx.gasUsed, 0),
+      gasCostNative,
+      gasCostUsd: nativePrice !== null ? gasCostNative * nativePrice : null,
+      feeIncomeUsd: feeIncomeByDay.get(key) ?? 0,
+      medianGasCostUsd: medianPrice !== null ? median(txs.map(tx => tx.gasCostNative * medianPrice)) : null,
+      medianMarginUsd: medianPrice !== null
+        ? median(txs.map(tx => (feeByTx.get(`${chain}|${tx.txHash}`) ?? 0) - tx.gasCostNative * medianPrice))
+        : null,
+    });
+  }
+
+  for (const row of rows) {
+    await db.insert(schema.relayerGasDaily).values(row);
+  }
+
+  const unpriced = rows.filter(r => r.unshieldTxCount > 0 && r.gasCostUsd === null);
+  const unpricedChains = [...new Set(unpriced.map(r => r.chain))]
+    .map(chain => isSupportedChain(chain) ? CHAINS[chain].label : chain);
+  console.log(
+    `Relayer gas computed for ${unshieldTxs.length} unshield transactions over ${rows.length} chain-days` +
+    (unpriced.length > 0 ? ` (${unpriced.length} without a native token price: ${unpricedChains.join(', ')})` : '')
+  );
+}
+
+// Usage: bun run src/analytics/relayerGas.ts [--dirty-until <unix seconds>]
+if (import.meta.main) {
+  dirtyScopeFromArgs().then(computeRelayerGas).catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -1,11 +1,12 @@
 import { db, schema } from '../db/client';
 import { sql, eq, isNotNull, and } from 'drizzle-orm';
+import { describeScope, dirtyScopeFromArgs, eventsOnDirtyDates, onDirtyDates, type DirtyScope } from './dirtyDates';
 
-async function computeRelayerStats() {
-  console.log('Computing relayer stats...');
+export async function computeRelayerStats(scope: DirtyScope | null = null) {
+  console.log(`Computing relayer stats${describeScope(scope)}...`);
 
   // Clear existing data
-  await db.delete(schema.relayerStatsDaily);
+  await db.delete(schema.relayerStatsDaily).where(onDirtyDates(scope, schema.relayerStatsDaily.chain, schema.relayerStatsDaily.date));
 
   // Get all withdrawals with relayer addresses, grouped by date, chain, and relayer
   // The relayer is the transaction sender (msg.sender) who submitted the withdrawal
@@ -20,7 +21,8 @@ async function computeRelayerStats() {
     .from(schema.events)
     .where(and(
       eq(schema.events.eventType, 'withdrawal'),
-      isNotNull(schema.events.relayerAddress)
+      isNotNull(schema.events.relayerAddress),
+      eventsOnDirtyDates(scope)
     ))
     .groupBy(sql`date(${schema.events.blockTimestamp}, 'unixepoch')`, schema.events.chain, schema.events.relayerAddress);
 
@@ -76,4 +78,10 @@ async function computeRelayerStats() {
   console.log(`Relayer stats computed for ${byDateAndChain.size} date-chain combinations`);
 }
 
-computeRelayerStats().catch(console.error);
+// Usage: bun run src/analytics/relayerStats.ts [--dirty-until <unix seconds>]
+if (import.meta.main) {
+  dirtyScopeFromArgs().then(computeRelayerStats).catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -1,11 +1,12 @@
 import { db, schema } from '../db/client';
-import { sql } from 'drizzle-orm';
+import { sql, and, isNotNull } from 'drizzle-orm';
+import { describeScope, dirtyScopeFromArgs, eventsOnDirtyDates, onDirtyDates, type DirtyScope } from './dirtyDates';
 
-async function computeTokenDiversity() {
-  console.log('Computing daily token diversity...');
+export async function computeTokenDiversity(scope: DirtyScope | null = null) {
+  console.log(`Computing daily token diversity${describeScope(scope)}...`);
 
   // Clear existing data
-  await db.delete(schema.dailyTokenDiversity);
+  await db.delete(schema.dailyTokenDiversity).where(onDirtyDates(scope, schema.dailyTokenDiversity.chain, schema.dailyTokenDiversity.date));
 
   // Query events with COUNT(DISTINCT tokenId) per date per chain
   const diversity = await db.select({
@@ -14,7 +15,7 @@ async function computeTokenDiversity() {
     uniqueTokenCount: sql<number>`count(distinct ${schema.events.tokenId})`,
   })
   .from(schema.events)
-  .where(sql`${schema.events.tokenId} is not null`)
+  .where(and(isNotNull(schema.events.tokenId), eventsOnDirtyDates(scope)))
   .groupBy(
     sql`date(${schema.events.blockTimestamp}, 'unixepoch')`,
     schema.events.chain
@@ -33,4 +34,10 @@ async function computeTokenDiversity() {
   console.log(`Token diversity computed: ${inserted} rows inserted`);
 }
 
-computeTokenDiversity().catch(console.error);
+// Usage: bun run src/analytics/tokenDiversity.ts [--dirty-until <unix seconds>]
+if (import.meta.main) {
+  dirtyScopeFromArgs().then(computeTokenDiversity).catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,226 @@
+import { getAddress, isAddress } from 'viem';
+import { eq, inArray, type SQL } from 'drizzle-orm';
+import { type SQLiteColumn } from 'drizzle-orm/sqlite-core';
+import { db, schema } from '../db/client';
+import { CHAINS, CHAIN_NAMES, type SupportedChain } from '../indexer/chains';
+
+export type TokenVerification = 'verified' | 'unverified' | 'spam';
+
+// Which tokens pages and chart queries include: verified only, everything but spam, or all
+export type TokenVisibility = 'verified' | 'no-spam' | 'all';
+
+// The default once a token list is imported. Until then no token is verified,
+// so the default only hides spam (see defaultTokenVisibility).
+export const DEFAULT_TOKEN_VISIBILITY: TokenVisibility = 'verified';
+const UNLISTED_TOKEN_VISIBILITY: TokenVisibility = 'no-spam';
+
+const VISIBLE_VERIFICATIONS: Record<TokenVisibility, TokenVerification[]> = {
+  'verified': ['verified'],
+  'no-spam': ['verified', 'unverified'],
+  'all': ['verified', 'unverified', 'spam'],
+};
+
+// Decimals real ERC-20s use; anything else (or none at all) is one spam signal
+const COMMON_DECIMALS = new Set([0, 2, 4, 6, 8, 9, 12, 18]);
+
+// Airdropped spam tends to advertise a claim site in its symbol or name
+const LINK_PATTERN = /https?:|www\.|t\.me\/|\.(com|io|org|net|xyz|app|finance|site|top)\b/i;
+
+// Cyrillic and Greek capitals that render like Latin ones ("USDС" with a Cyrillic С)
+const LOOKALIKES: Record<string, string> = {
+  'А': 'A', 'В': 'B', 'С': 'C', 'Е': 'E', 'Н': 'H', 'І': 'I', 'Ј': 'J', 'К': 'K', 'М': 'M',
+  'О': 'O', 'Р': 'P', 'Ѕ': 'S', 'Т': 'T', 'Х': 'X', 'Ү': 'Y',
+  'Α': 'A', 'Β': 'B', 'Ε': 'E', 'Ζ': 'Z', 'Η': 'H', 'Ι': 'I', 'Κ': 'K', 'Μ': 'M', 'Ν': 'N',
+  'Ο': 'O', 'Ρ': 'P', 'Τ': 'T', 'Υ': 'Y', 'Χ': 'X',
+};
+
+const INSERT_CHUNK_SIZE = 100;
+
+// One token of a Uniswap-format list (https://uniswap.org/tokenlist.schema.json); other fields are ignored
+export interface TokenListToken {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+}
+
+export interface TokenList {
+  name: string;
+  tokens: TokenListToken[];
+  invalid: number; // Entries dropped for missing or malformed fields
+}
+
+export interface ClassificationSummary {
+  verified: number;
+  unverified: number;
+  spam: number;
+  changed: number;
+}
+
+export function defaultTokenVisibility(): TokenVisibility {
+  const listed = db.select({ listName: schema.tokenListEntries.listName }).from(schema.tokenListEntries).limit(1).get();
+  return listed ? DEFAULT_TOKEN_VISIBILITY : UNLISTED_TOKEN_VISIBILITY;
+}
+
+export function parseTokenVisibility(value: string | undefined): TokenVisibility {
+  return value === 'verified' || value === 'no-spam' || value === 'all' ? value : defaultTokenVisibility();
+}
+
+export function isTokenVisible(verification: string, visibility: TokenVisibility = defaultTokenVisibility()): boolean {
+  return (VISIBLE_VERIFICATIONS[visibility] as string[]).includes(verification);
+}
+
+/**
+ * Condition restricting a token id column (tokens.id, dailyFlows.tokenId, ...)
+ * to the tokens `visibility` shows, or undefined when it shows everything.
+ */
+export function visibleTokenCondition(column: SQLiteColumn, visibility: TokenVisibility = defaultTokenVisibility()): SQL | undefined {
+  if (visibility === 'all') return undefined;
+  return inArray(column, db.select({ id: schema.tokens.id })
+    .from(schema.tokens)
+    .where(inArray(schema.tokens.verification, VISIBLE_VERIFICATIONS[visibility])));
+}
+
+function isListToken(value: unknown): value is TokenListToken {
+  if (typeof value !== 'object' || value === null) return false;
+  const token = value as Record<string, unknown>;
+  return Number.isInteger(token.chainId)
+    && typeof token.address === 'string' && isAddress(token.address, { strict: false })
+    && typeof token.symbol === 'string' && token.symbol.length > 0
+    && typeof token.name === 'string'
+    && typeof token.decimals === 'number' && Number.isInteger(token.decimals) && token.decimals >= 0 && token.decimals <= 255;
+}
+
+// Validates the parts of a token list this module reads; `source` names the file in errors
+export function parseTokenList(json: unknown, source: string): TokenList {
+  const list = json as { name?: unknown; tokens?: unknown };
+  if (typeof list !== 'object' || list === null || typeof list.name !== 'string' || !Array.isArray(list.tokens)) {
+    throw new Error(`${source} is not a Uniswap-format token list (expected "name" and a "tokens" array)`);
+  }
+  const tokens = list.tokens.filter(isListToken);
+  return { name: list.name, tokens, invalid: list.tokens.length - tokens.length };
+}
+
+function chainForId(chainId: number): SupportedChain | undefined {
+  return CHAIN_NAMES.find(name => CHAINS[name].viemChain.id === chainId);
+}
+
+/**
+ * Replaces the stored entries of the list with this name. Tokens on chains
+ * that aren't indexed are skipped; the count is returned for the log line.
+ */
+export async function importTokenList(list: TokenList): Promise<{ imported: number; otherChains: number }> {
+  const now = Math.floor(Date.now() / 1000);
+  const entries: Array<typeof schema.tokenListEntries.$inferInsert> = [];
+  const seen = new Set<string>();
+  let otherChains = 0;
+
+  for (const token of list.tokens) {
+    const chain = chainForId(token.chainId);
+    if (!chain) {
+      otherChains++;
+      continue;
+    }
+    const address = getAddress(token.address);
+    if (seen.has(`${chain}:${address}`)) continue;
+    seen.add(`${chain}:${address}`);
+    entries.push({ listName: list.name, chain, address, symbol: token.symbol, name: token.name, decimals: token.decimals, importedAt: now });
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.delete(schema.tokenListEntries).where(eq(schema.tokenListEntries.listName, list.name));
+    for (let i = 0; i < entries.length; i += INSERT_CHUNK_SIZE) {
+      await tx.insert(schema.tokenListEntries).values(entries.slice(i, i + INSERT_CHUNK_SIZE));
+    }
+  });
+
+  return { imported: entries.length, otherChains };
+}
+
+// Comparable form of a symbol: lookalikes folded to Latin, case and punctuation dropped
+function symbolKey(symbol: string): string {
+  return [...symbol.normalize('NFKC').toUpperCase()]
+    .map(ch => LOOKALIKES[ch] ?? ch)
+    .join('')
+    .replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Heuristics for an unlisted ERC-20. A copied verified symbol or a link is
+ * enough to call it spam on its own; no price and odd decimals only together.
+ */
+function spamSignals(
+  token: schema.Token,
+  listedSymbols: Map<string, string>,
+  pricedTokenIds: Set<number>,
+): { strong: string[]; weak: string[] } {
+  const strong: string[] = [];
+  const weak: string[] = [];
+
+  const copied = token.symbol ? listedSymbols.get(`${token.chain}:${symbolKey(token.symbol)}`) : undefined;
+  if (copied) strong.push(`copies verified symbol ${copied}`);
+  if (LINK_PATTERN.test(`${token.symbol ?? ''} ${token.name ?? ''}`)) strong.push('link in symbol or name');
+
+  if (!pricedTokenIds.has(token.id)) weak.push('no price');
+  if (token.decimals === null) {
+    weak.push('decimals unknown');
+  } else if (!COMMON_DECIMALS.has(token.decimals)) {
+    weak.push(`odd decimals (${token.decimals})`);
+  }
+
+  return { strong, weak };
+}
+
+/**
+ * Recomputes tokens.verification and tokens.spamSignals from the imported
+ * lists and the price cache. Tokens on a list are verified; unlisted ERC-20s
+ * go through the spam heuristics. NFT collections are never on a list and
+ * have no price or decimals to judge, so they stay unverified.
+ */
+export async function classifyTokens(): Promise<ClassificationSummary> {
+  const tokens = await db.select().from(schema.tokens);
+  const entries = await db.select().from(schema.tokenListEntries);
+  const priced = await db.selectDistinct({ tokenId: schema.tokenPricesDaily.tokenId }).from(schema.tokenPricesDaily);
+
+  const listed = new Set(entries.map(e => `${e.chain}:${e.address}`));
+  const pricedTokenIds = new Set(priced.map(p => p.tokenId));
+  // Symbols are only compared within a chain: lists rarely cover every chain a symbol exists on
+  const listedSymbols = new Map<string, string>();
+  for (const e of entries) {
+    const key = symbolKey(e.symbol);
+    if (key) listedSymbols.set(`${e.chain}:${key}`, e.symbol);
+  }
+
+  const summary: ClassificationSummary = { verified: 0, unverified: 0, spam: 0, changed: 0 };
+  const updates: Array<{ id: number; verification: TokenVerification; spamSignals: string | null }> = [];
+
+  for (const token of tokens) {
+    let verification: TokenVerification = 'unverified';
+    let signals: string | null = null;
+
+    if (listed.has(`${token.chain}:${token.address}`)) {
+      verification = 'verified';
+    } else if (token.tokenStandard === 'erc20') {
+      const { strong, weak } = spamSignals(token, listedSymbols, pricedTokenIds);
+      if (strong.length > 0 || weak.length >= 2) verification = 'spam';
+      signals = strong.length + weak.length > 0 ? [...strong, ...weak].join('; ') : null;
+    }
+
+    summary[verification]++;
+    if (verification !== token.verification || signals !== token.spamSignals) {
+      updates.push({ id: token.id, verification, spamSignals: signals });
+    }
+  }
+
+  if (updates.length > 0) {
+    await db.transaction(async (tx) => {
+      for (const { id, verification, spamSignals } of updates) {
+        await tx.update(schema.tokens).set({ verification, spamSignals }).where(eq(schema.tokens.id, id));
+      }
+    });
+  }
+  summary.changed = updates.length;
+
+  return summary;
+}
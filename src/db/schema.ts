@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, real, primaryKey, unique, index } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, blob, primaryKey, unique, index } from 'drizzle-orm/sqlite-core';
 
 // Key-value metadata store (for last_indexed_block_eth, last_indexed_block_polygon, etc.)
 export const metadata = sqliteTable('metadata', {
@@ -6,35 +6,57 @@ export const metadata = sqliteTable('metadata', {
   value: text('value'),
 });
 
-// ERC-20 token metadata cache (chain-aware)
+// Token metadata cache (chain-aware): ERC-20 tokens and NFT collections
 export const tokens = sqliteTable('tokens', {
   id: integer('id').primaryKey({ autoIncrement: true }),
-  chain: text('chain').notNull(), // 'ethereum', 'polygon', 'arbitrum'
+  chain: text('chain').notNull(), // 'ethereum', 'polygon', 'arbitrum', 'bsc'
   address: text('address').notNull(), // checksummed
   symbol: text('symbol'),
-  decimals: integer('decimals'),
+  name: text('name'),
+  decimals: integer('decimals'), // null for NFT collections
+  tokenStandard: text('token_standard').notNull().default('erc20'), // "erc20" | "erc721" | "erc1155"
+  metadataError: text('metadata_error'), // Why the last on-chain lookup came back incomplete, e.g. "decimals: reverted"; null when complete
+  metadataCheckedAt: integer('metadata_checked_at'), // Unix seconds of the last lookup
+  verification: text('verification').notNull().default('unverified'), // "verified" (on an imported token list) | "unverified" | "spam"
+  spamSignals: text('spam_signals'), // Heuristics that matched, e.g. "no price; odd decimals (7)"; null when none did
 }, (table) => ({
   // Unique constraint: same address can exist on different chains
   chainAddressUnique: unique().on(table.chain, table.address),
 }));
 
+// Entries of the imported Uniswap-format token lists; a token on any list is verified
+export const tokenListEntries = sqliteTable('token_list_entries', {
+  listName: text('list_name').notNull(),
+  chain: text('chain').notNull(),
+  address: text('address').notNull(), // checksummed
+  symbol: text('symbol').notNull(),
+  name: text('name').notNull(),
+  decimals: integer('decimals').notNull(),
+  importedAt: integer('imported_at').notNull(), // Unix seconds
+}, (table) => ({
+  pk: primaryKey({ columns: [table.listName, table.chain, table.address] }),
+}));
+
 // Raw indexed events from Railgun contracts
 export const events = sqliteTable('events', {
   id: integer('id').primaryKey({ autoIncrement: true }),
-  chain: text('chain').notNull(), // 'ethereum', 'polygon', 'arbitrum'
+  chain: text('chain').notNull(), // 'ethereum', 'polygon', 'arbitrum', 'bsc'
   txHash: text('tx_hash').notNull(),
   logIndex: integer('log_index').notNull(),
   blockNumber: integer('block_number').notNull(),
   blockTimestamp: integer('block_timestamp').notNull(), // Unix seconds
   contractName: text('contract_name').notNull(), // "SmartWallet" | "Relay"
   eventName: text('event_name').notNull(), // Raw ABI name
-  eventType: text('event_type').notNull(), // "deposit" | "withdrawal" | "relayer_payment" | "other"
+  eventType: text('event_type').notNull(), // "deposit" | "withdrawal" | "transact" | "nullifier" | "relayer_payment" | "other"
   tokenId: integer('token_id').references(() => tokens.id),
+  tokenSubId: text('token_sub_id'), // NFT id within the collection; null for ERC-20
   rawAmountWei: text('raw_amount_wei'), // bigint as string
   amountNormalized: real('amount_normalized'),
   relayerAddress: text('relayer_address'),
   fromAddress: text('from_address'),
   toAddress: text('to_address'),
+  gasUsed: integer('gas_used'), // Withdrawals only: the transaction's receipt, repeated on each of its events
+  effectiveGasPriceWei: text('effective_gas_price_wei'), // Withdrawals only, bigint as string
   metadataJson: text('metadata_json'), // JSON blob
 }, (table) => ({
   // Idempotency constraint: same tx/log can exist on different chains
@@ -49,7 +71,7 @@ export const events = sqliteTable('events', {
 // Pre-computed daily aggregates per token
 export const dailyFlows = sqliteTable('daily_flows', {
   date: text('date').notNull(), // "YYYY-MM-DD"
-  chain: text('chain').notNull(), // 'ethereum', 'polygon', 'arbitrum'
+  chain: text('chain').notNull(), // 'ethereum', 'polygon', 'arbitrum', 'bsc'
   tokenId: integer('token_id').notNull().references(() => tokens.id),
   totalDeposits: real('total_deposits').notNull().default(0),
   totalWithdrawals: real('total_withdrawals').notNull().default(0),
@@ -76,7 +98,7 @@ export const tokenPricesDaily = sqliteTable('token_prices_daily', {
 // Pre-computed daily relayer concentration metrics
 export const relayerStatsDaily = sqliteTable('relayer_stats_daily', {
   date: text('date').notNull(), // "YYYY-MM-DD"
-  chain: text('chain').notNull(), // 'ethereum', 'polygon', 'arbitrum'
+  chain: text('chain').notNull(), // 'ethereum', 'polygon', 'arbitrum', 'bsc'
   numActiveRelayers: integer('num_active_relayers').notNull().default(0),
   top5Share: real('top_5_share').notNull().default(0), // 0-1
   hhi: real('hhi').notNull().default(0), // sum of squared shares
@@ -85,18 +107,18 @@ export const relayerStatsDaily = sqliteTable('relayer_stats_daily', {
   pk: primaryKey({ columns: [table.date, table.chain] }),
 }));
 
-// Pre-computed daily relayer fee revenue per relayer and token
-export const relayerFeeRevenueDaily = sqliteTable('relayer_fee_revenue_daily', {
+// Pre-computed daily protocol fee income per token, split by shield and unshield fees
+export const protocolFeeRevenueDaily = sqliteTable('protocol_fee_revenue_daily', {
   date: text('date').notNull(), // "YYYY-MM-DD"
-  chain: text('chain').notNull(), // 'ethereum', 'polygon', 'arbitrum'
-  relayerAddress: text('relayer_address').notNull(),
+  chain: text('chain').notNull(),
   tokenId: integer('token_id').notNull().references(() => tokens.id),
-  totalFeeWei: text('total_fee_wei').notNull(), // Total fees in wei (as string for bigint)
-  totalFeeNormalized: real('total_fee_normalized').notNull().default(0), // Total fees normalized
-  txCount: integer('tx_count').notNull().default(0), // Number of transactions
-  avgFeeNormalized: real('avg_fee_normalized').notNull().default(0), // Average fee per transaction
+  feeType: text('fee_type').notNull(), // "shield" | "unshield"
+  totalFeeWei: text('total_fee_wei').notNull(), // bigint as string
+  totalFeeNormalized: real('total_fee_normalized').notNull().default(0),
+  totalFeeUsd: real('total_fee_usd'), // null if price unavailable
+  txCount: integer('tx_count').notNull().default(0), // Fee-paying commitments / unshields
 }, (table) => ({
-  pk: primaryKey({ columns: [table.date, table.chain, table.relayerAddress, table.tokenId] }),
+  pk: primaryKey({ columns: [table.date, table.chain, table.tokenId, table.feeType] }),
 }));
 
 // Pre-computed daily token diversity metrics
@@ -108,13 +130,216 @@ export const dailyTokenDiversity = sqliteTable('daily_token_diversity', {
   pk: primaryKey({ columns: [table.date, table.chain] }),
 }));
 
+// Pre-computed daily gas relayers spent on unshields against the fees paid to them, per chain
+// Aggregates only: nothing is kept per relayer
+export const relayerGasDaily = sqliteTable('relayer_gas_daily', {
+  date: text('date').notNull(), // "YYYY-MM-DD"
+  chain: text('chain').notNull(),
+  unshieldTxCount: integer('unshield_tx_count').notNull().default(0), // Relayed unshield transactions with a receipt
+  totalGasUsed: integer('total_gas_used').notNull().default(0),
+  gasCostNative: real('gas_cost_native').notNull().default(0), // ETH / POL / BNB
+  gasCostUsd: real('gas_cost_usd'), // null if the wrapped native token has no price that day
+  feeIncomeUsd: real('fee_income_usd').notNull().default(0), // Lower bound: priced relayer_payment events only
+  medianGasCostUsd: real('median_gas_cost_usd'), // Per unshield; null below the privacy threshold or without a price
+  medianMarginUsd: real('median_margin_usd'), // Per unshield: explicit fees paid in its transaction minus its gas (lower bound)
+}, (table) => ({
+  pk: primaryKey({ columns: [table.date, table.chain] }),
+}));
+
+// Pre-computed daily shield / private transfer / unshield counts per chain
+export const privateActivityDaily = sqliteTable('private_activity_daily', {
+  date: text('date').notNull(), // "YYYY-MM-DD"
+  chain: text('chain').notNull(),
+  shieldTxCount: integer('shield_tx_count').notNull().default(0),
+  transactTxCount: integer('transact_tx_count').notNull().default(0), // Private transfers only (no unshield in the tx)
+  unshieldTxCount: integer('unshield_tx_count').notNull().default(0),
+  commitmentCount: integer('commitment_count').notNull().default(0), // New commitments from Transact events
+  nullifierCount: integer('nullifier_count').notNull().default(0), // Notes spent
+}, (table) => ({
+  pk: primaryKey({ columns: [table.date, table.chain] }),
+}));
+
+// Pre-computed daily NFT shield/unshield counts per collection
+// Buckets below the privacy threshold are never written
+export const nftActivityDaily = sqliteTable('nft_activity_daily', {
+  date: text('date').notNull(), // "YYYY-MM-DD"
+  chain: text('chain').notNull(),
+  tokenId: integer('token_id').notNull().references(() => tokens.id), // The collection
+  shieldCount: integer('shield_count').notNull().default(0), // NFTs shielded
+  unshieldCount: integer('unshield_count').notNull().default(0), // NFTs unshielded
+}, (table) => ({
+  pk: primaryKey({ columns: [table.date, table.chain, table.tokenId] }),
+}));
+
+// Leaves of each commitment (merkle) tree at the end of every day it grew, from
+// the tree positions in Shield and Transact events
+export const commitmentTreeDaily = sqliteTable('commitment_tree_daily', {
+  date: text('date').notNull(), // "YYYY-MM-DD"
+  chain: text('chain').notNull(),
+  treeNumber: integer('tree_number').notNull(),
+  leaves: integer('leaves').notNull(), // Highest position filled so far + 1
+  commitmentsAdded: integer('commitments_added').notNull().default(0), // Leaves added that day
+}, (table) => ({
+  pk: primaryKey({ columns: [table.date, table.chain, table.treeNumber] }),
+}));
+
+// Daily anonymity set per chain: the leaves of the tree new commitments go into,
+// carried forward over days without activity
+export const anonymitySetDaily = sqliteTable('anonymity_set_daily', {
+  date: text('date').notNull(), // "YYYY-MM-DD"
+  chain: text('chain').notNull(),
+  activeTree: integer('active_tree').notNull(), // Highest tree number seen
+  anonymitySetSize: integer('anonymity_set_size').notNull(), // Leaves in the active tree
+  cumulativeCommitments: integer('cumulative_commitments').notNull(), // Leaves across every tree seen
+  treeCount: integer('tree_count').notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.date, table.chain] }),
+}));
+
+// Block hashes seen by the indexers, used to detect chain reorganizations
+export const blockHashes = sqliteTable('block_hashes', {
+  chain: text('chain').notNull(),
+  blockNumber: integer('block_number').notNull(),
+  blockHash: text('block_hash').notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.chain, table.blockNumber] }),
+}));
+
+// Timestamps of blocks the indexers have looked up, so re-indexing a range needs no getBlock calls
+export const blockTimestamps = sqliteTable('block_timestamps', {
+  chain: text('chain').notNull(),
+  blockNumber: integer('block_number').notNull(),
+  timestamp: integer('timestamp').notNull(), // Unix seconds
+}, (table) => ({
+  pk: primaryKey({ columns: [table.chain, table.blockNumber] }),
+}));
+
+// Log of detected reorgs and the rollback applied for each
+export const reorgs = sqliteTable('reorgs', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  chain: text('chain').notNull(),
+  detectedAt: integer('detected_at').notNull(), // Unix seconds
+  forkBlock: integer('fork_block').notNull(), // Last block still on the canonical chain
+  depth: integer('depth').notNull(), // Number of blocks rolled back
+  eventsRemoved: integer('events_removed').notNull().default(0),
+}, (table) => ({
+  chainIdx: index('reorgs_chain_idx').on(table.chain),
+}));
+
+// Dates whose aggregates are stale and must be recomputed by the analytics scripts
+export const dirtyDates = sqliteTable('dirty_dates', {
+  chain: text('chain').notNull(),
+  date: text('date').notNull(), // "YYYY-MM-DD"
+  reason: text('reason').notNull(), // "indexed" | "reorg" | "reindex" | "redecode" | "metadata" | ...
+  markedAt: integer('marked_at').notNull(), // Unix seconds
+}, (table) => ({
+  pk: primaryKey({ columns: [table.chain, table.date] }),
+}));
+
+// Logs fetched from an indexed contract that no decoder produced an event for.
+// Kept verbatim so they can be re-decoded (and promoted to events) after a decoder fix.
+export const undecodedLogs = sqliteTable('undecoded_logs', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  chain: text('chain').notNull(),
+  contractName: text('contract_name').notNull(),
+  address: text('address').notNull(),
+  blockNumber: integer('block_number').notNull(),
+  blockHash: text('block_hash').notNull(),
+  txHash: text('tx_hash').notNull(),
+  txIndex: integer('tx_index').notNull(),
+  logIndex: integer('log_index').notNull(), // Raw log index (events.logIndex is logIndex * 100 + sub-index)
+  topic0: text('topic0'), // null for anonymous logs
+  topicsJson: text('topics_json').notNull(), // JSON array of all topics
+  data: text('data').notNull(),
+  quarantinedAt: integer('quarantined_at').notNull(), // Unix seconds
+}, (table) => ({
+  chainTxLogUnique: unique().on(table.chain, table.txHash, table.logIndex),
+  chainTopicIdx: index('undecoded_logs_chain_topic0_idx').on(table.chain, table.topic0),
+}));
+
+// Raw logs exactly as fetched, one gzipped JSON chunk per indexed block range, so
+// events can be rebuilt with newer decoders without going back to the RPC
+export const rawLogChunks = sqliteTable('raw_log_chunks', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  chain: text('chain').notNull(),
+  fromBlock: integer('from_block').notNull(), // Inclusive range the chunk covers, logs or not
+  toBlock: integer('to_block').notNull(),
+  logCount: integer('log_count').notNull(),
+  payload: blob('payload', { mode: 'buffer' }).notNull(), // gzip of the chunk JSON (logs, block timestamps, tx senders)
+  archivedAt: integer('archived_at').notNull(), // Unix seconds
+}, (table) => ({
+  chainFromUnique: unique().on(table.chain, table.fromBlock),
+  chainToIdx: index('raw_log_chunks_chain_to_block_idx').on(table.chain, table.toBlock),
+}));
+
+// Prometheus samples reported by the indexers and other child processes, rendered by /metrics.
+// Counters and histogram parts accumulate across processes and restarts; gauges hold the last value.
+export const metricSamples = sqliteTable('metric_samples', {
+  name: text('name').notNull(), // Series name, e.g. "railgun_rpc_request_duration_seconds_bucket"
+  labels: text('labels').notNull(), // Rendered label set, e.g. 'chain="ethereum",method="eth_getLogs"'; "" for none
+  value: real('value').notNull(),
+  updatedAt: integer('updated_at').notNull(), // Unix seconds
+}, (table) => ({
+  pk: primaryKey({ columns: [table.name, table.labels] }),
+}));
+
+// Latest health snapshot of each configured RPC endpoint, written by the indexer processes
+export const rpcEndpoints = sqliteTable('rpc_endpoints', {
+  chain: text('chain').notNull(),
+  endpointIndex: integer('endpoint_index').notNull(), // Position in the comma-separated RPC URL list
+  url: text('url').notNull(), // Redacted: scheme and host only
+  latencyMs: real('latency_ms'), // Smoothed
+  errorRate: real('error_rate').notNull().default(0), // Smoothed, 0-1
+  requestCount: integer('request_count').notNull().default(0),
+  errorCount: integer('error_count').notNull().default(0),
+  rateLimitCount: integer('rate_limit_count').notNull().default(0),
+  timeoutCount: integer('timeout_count').notNull().default(0),
+  coolingDownUntil: integer('cooling_down_until'), // Unix ms
+  consistent: integer('consistent', { mode: 'boolean' }), // null until checked
+  lastError: text('last_error'),
+  updatedAt: integer('updated_at').notNull(), // Unix seconds
+}, (table) => ({
+  pk: primaryKey({ columns: [table.chain, table.endpointIndex] }),
+}));
+
+// One attempt of an analytics job by the scheduler in start-all.ts (see src/scheduler.ts)
+export const jobRuns = sqliteTable('job_runs', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  job: text('job').notNull(), // e.g. "daily_flows"
+  passStartedAt: integer('pass_started_at').notNull(), // Unix seconds; groups the jobs of one scheduler pass
+  attempt: integer('attempt').notNull().default(1),
+  status: text('status').notNull(), // "running" | "success" | "failure" | "timeout" | "skipped"
+  startedAt: integer('started_at').notNull(), // Unix seconds
+  durationMs: integer('duration_ms'), // null while running and for skipped jobs
+  rowCount: integer('row_count'), // Rows in the job's output table afterwards, if it has one
+  scope: text('scope'), // "full" or "12 dirty dates" for jobs that aggregate per date
+  error: text('error'), // Failure message, or why the job was skipped
+}, (table) => ({
+  jobIdx: index('job_runs_job_started_idx').on(table.job, table.startedAt),
+}));
+
 // Type exports for use in application code
 export type Metadata = typeof metadata.$inferSelect;
 export type Token = typeof tokens.$inferSelect;
+export type TokenListEntry = typeof tokenListEntries.$inferSelect;
 export type Event = typeof events.$inferSelect;
 export type NewEvent = typeof events.$inferInsert;
 export type DailyFlow = typeof dailyFlows.$inferSelect;
 export type RelayerStatsDaily = typeof relayerStatsDaily.$inferSelect;
-export type RelayerFeeRevenueDaily = typeof relayerFeeRevenueDaily.$inferSelect;
+export type ProtocolFeeRevenueDaily = typeof protocolFeeRevenueDaily.$inferSelect;
+export type RelayerGasDaily = typeof relayerGasDaily.$inferSelect;
 export type DailyTokenDiversity = typeof dailyTokenDiversity.$inferSelect;
 export type TokenPriceDaily = typeof tokenPricesDaily.$inferSelect;
+export type PrivateActivityDaily = typeof privateActivityDaily.$inferSelect;
+export type NftActivityDaily = typeof nftActivityDaily.$inferSelect;
+export type CommitmentTreeDaily = typeof commitmentTreeDaily.$inferSelect;
+export type AnonymitySetDaily = typeof anonymitySetDaily.$inferSelect;
+export type BlockHash = typeof blockHashes.$inferSelect;
+export type BlockTimestamp = typeof blockTimestamps.$inferSelect;
+export type Reorg = typeof reorgs.$inferSelect;
+export type DirtyDate = typeof dirtyDates.$inferSelect;
+export type RpcEndpoint = typeof rpcEndpoints.$inferSelect;
+export type JobRun = typeof jobRuns.$inferSelect;
+export type MetricSample = typeof metricSamples.$inferSelect;
+export type UndecodedLog = typeof undecodedLogs.$inferSelect;
+export type RawLogChunk = typeof rawLogChunks.$inferSelect;
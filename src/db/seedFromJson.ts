@@ -33,6 +33,8 @@ interface TokenInfo {
 /**
  * Calculate token decimals from rawAmountWei and amountNormalized
  * Formula: decimals = log10(rawAmountWei / amountNormalized)
+ * Only a guess: refreshTokenMetadata.ts later reads the real value on chain
+ * and re-normalizes the token's events if it differs.
  */
 function calculateDecimals(rawAmountWei: string, amountNormalized: number): number | null {
   try {
@@ -0,0 +1,80 @@
+import { parseArgs } from 'node:util';
+import { getChainConfig } from './chains';
+import { loadRecordedLogs } from './rpcFixtures';
+import { loadDecoderFixtures, saveDecoderFixture, decodeFixtureLog, toFixtureEvents } from './decoderFixtures';
+
+// Usage: bun run src/indexer/addDecoderFixture.ts --chain <chain> --tx <hash> --description <text>
+// Adds every log of the transaction found in the RPC replay archive (RPC_FIXTURES_DIR)
+// to the decoder corpus, with the current decoder output as the expected value.
+// Review the printed output before committing: the fixture pins whatever is decoded now.
+// The description names the event signature of a new topic0 file; existing files keep theirs.
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      chain: { type: 'string' },
+      tx: { type: 'string' },
+      description: { type: 'string' },
+    },
+  });
+
+  if (!values.chain || !values.tx || !values.description?.trim()) {
+    throw new Error('Usage: decoder:add --chain <chain> --tx <hash> --description <text>');
+  }
+  const description = values.description.trim();
+
+  const chain = getChainConfig(values.chain);
+  const txHash = values.tx.toLowerCase();
+  const indexed = new Set(chain.contracts.map(c => c.address.toLowerCase()));
+
+  // The same log can appear in several recorded getLogs ranges
+  const logs = new Map(loadRecordedLogs(chain.name)
+    .filter(log => log.transactionHash?.toLowerCase() === txHash && indexed.has(log.address.toLowerCase()))
+    .map(log => [log.logIndex, log]));
+
+  if (logs.size === 0) {
+    throw new Error(`[${chain.name}] No logs for ${txHash} in the replay archive; record a range containing it with RPC_FIXTURES=record`);
+  }
+
+  const fixtures = new Map(loadDecoderFixtures().map(f => [f.topic0.toLowerCase(), f]));
+  let added = 0;
+
+  for (const log of logs.values()) {
+    const topic0 = log.topics[0]?.toLowerCase();
+    if (!topic0) continue;
+
+    const fixture = fixtures.get(topic0) ?? {
+      topic0,
+      description,
+      cases: [],
+    };
+    const duplicate = fixture.cases.some(c =>
+      c.chain === chain.name && c.log.transactionHash?.toLowerCase() === txHash && c.log.logIndex === log.logIndex
+    );
+    if (duplicate) {
+      console.log(`${topic0} log ${Number(log.logIndex)}: already in the corpus`);
+      continue;
+    }
+
+    const expected = toFixtureEvents(decodeFixtureLog(chain.name, log));
+    fixture.cases.push({
+      name: `${chain.name} ${txHash.slice(0, 10)} log ${Number(log.logIndex)}`,
+      chain: chain.name,
+      source: 'archive',
+      log,
+      expected,
+    });
+    fixtures.set(topic0, fixture);
+    saveDecoderFixture(fixture);
+    added++;
+
+    console.log(`${topic0} log ${Number(log.logIndex)} -> ${expected.length} event(s)`);
+    console.log(JSON.stringify(expected, null, 2));
+  }
+
+  console.log(`Added ${added} fixture case(s)`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,85 @@
+import { parseArgs } from 'node:util';
+import { eq } from 'drizzle-orm';
+import { db, schema } from '../db/client';
+import { getChainConfig } from './chains';
+import { getBatchSize, getLastIndexedBlock } from './engine';
+import { reindexRange } from './reindexer';
+
+// Windows re-indexed between two progress saves
+const WINDOWS_PER_SEGMENT = 20n;
+
+function progressKey(chain: string, contract: string): string {
+  return `backfill_${chain}_${contract}`;
+}
+
+async function getProgress(key: string): Promise<bigint | null> {
+  const row = await db.select().from(schema.metadata).where(eq(schema.metadata.key, key)).get();
+  return row?.value ? BigInt(row.value) : null;
+}
+
+async function setProgress(key: string, block: bigint): Promise<void> {
+  await db.insert(schema.metadata)
+    .values({ key, value: block.toString() })
+    .onConflictDoUpdate({
+      target: schema.metadata.key,
+      set: { value: block.toString() },
+    });
+}
+
+// Usage: bun run src/indexer/backfill.ts --chain <chain> --contract <name> [--workers N]
+// One-off for a contract added to a chain that was already being indexed: the
+// live indexer only fetches it from its cursor on, so this re-indexes start
+// block..cursor with every configured contract (cross-contract duplicates are
+// dropped as usual). Progress is saved in metadata, so an interrupted run resumes.
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      chain: { type: 'string' },
+      contract: { type: 'string' },
+      workers: { type: 'string', default: '4' },
+    },
+  });
+
+  if (!values.chain || !values.contract) {
+    throw new Error('Usage: backfill --chain <chain> --contract <name> [--workers N]');
+  }
+
+  const chain = getChainConfig(values.chain);
+  if (!chain.contracts.some(c => c.name === values.contract)) {
+    throw new Error(`[${chain.name}] No contract named "${values.contract}". Configured: ${chain.contracts.map(c => c.name).join(', ')}`);
+  }
+  const workers = parseInt(values.workers);
+  if (!(workers >= 1)) {
+    throw new Error(`--workers must be a positive integer, got ${values.workers}`);
+  }
+
+  const key = progressKey(chain.name, values.contract);
+  const target = await getLastIndexedBlock(chain);
+  const done = await getProgress(key) ?? chain.startBlock;
+  if (done >= target) {
+    console.log(`[${chain.name}] ${values.contract} backfill already covers blocks up to ${done} (cursor ${target})`);
+    return;
+  }
+
+  const segmentSize = (await getBatchSize(chain)) * WINDOWS_PER_SEGMENT;
+  console.log(`Backfilling ${chain.label} ${values.contract} history, blocks ${done + 1n}-${target}...`);
+
+  const totals = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  for (let start = done + 1n; start <= target; start += segmentSize) {
+    const end = start + segmentSize - 1n > target ? target : start + segmentSize - 1n;
+    const result = await reindexRange(chain, start, end, workers);
+    totals.added += result.added;
+    totals.removed += result.removed;
+    totals.changed += result.changed;
+    totals.unchanged += result.unchanged;
+    await setProgress(key, end);
+    console.log(`[${chain.name}] Backfilled up to ${end} (${target - end} blocks left)`);
+  }
+
+  console.log(`Backfill complete: ${totals.added} added, ${totals.removed} removed, ${totals.changed} changed, ${totals.unchanged} unchanged`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
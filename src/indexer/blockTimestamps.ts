@@ -0,0 +1,124 @@
+import { db, schema } from '../db/client';
+import { and, eq, gt, lt, inArray, asc, desc } from 'drizzle-orm';
+import { type ChainConfig } from './chains';
+import { getClient, requestBatch, withRetry } from './rpc';
+
+// Blocks per cache lookup (SQLite variable limit) and per JSON-RPC batch (provider batch limits)
+const LOOKUP_CHUNK_SIZE = 500;
+const RPC_BATCH_SIZE = 50;
+
+type TimestampSource = 'cached' | 'interpolated' | 'fetched';
+
+export async function cacheBlockTimestamps(chain: string, timestamps: Map<bigint, number>): Promise<void> {
+  if (timestamps.size === 0) return;
+
+  await db.transaction(async (tx) => {
+    for (const [blockNumber, timestamp] of timestamps) {
+      await tx.insert(schema.blockTimestamps)
+        .values({ chain, blockNumber: Number(blockNumber), timestamp })
+        .onConflictDoNothing();
+    }
+  });
+}
+
+async function getCachedTimestamps(chain: string, blockNumbers: bigint[]): Promise<Map<bigint, number>> {
+  const cached = new Map<bigint, number>();
+  for (let i = 0; i < blockNumbers.length; i += LOOKUP_CHUNK_SIZE) {
+    const chunk = blockNumbers.slice(i, i + LOOKUP_CHUNK_SIZE).map(Number);
+    const rows = await db.select()
+      .from(schema.blockTimestamps)
+      .where(and(eq(schema.blockTimestamps.chain, chain), inArray(schema.blockTimestamps.blockNumber, chunk)));
+    for (const row of rows) cached.set(BigInt(row.blockNumber), row.timestamp);
+  }
+  return cached;
+}
+
+// With a fixed slot time, a block can only be placed exactly when its nearest cached
+// neighbours are exactly slotSeconds apart per block, i.e. no slot between them was missed
+async function interpolateTimestamp(chain: ChainConfig, blockNumber: bigint): Promise<number | null> {
+  if (!chain.slotSeconds) return null;
+
+  const n = Number(blockNumber);
+  const below = await db.select()
+    .from(schema.blockTimestamps)
+    .where(and(eq(schema.blockTimestamps.chain, chain.name), lt(schema.blockTimestamps.blockNumber, n)))
+    .orderBy(desc(schema.blockTimestamps.blockNumber))
+    .limit(1)
+    .get();
+  const above = await db.select()
+    .from(schema.blockTimestamps)
+    .where(and(eq(schema.blockTimestamps.chain, chain.name), gt(schema.blockTimestamps.blockNumber, n)))
+    .orderBy(asc(schema.blockTimestamps.blockNumber))
+    .limit(1)
+    .get();
+  if (!below || !above) return null;
+
+  const gap = above.timestamp - below.timestamp;
+  if (gap !== chain.slotSeconds * (above.blockNumber - below.blockNumber)) return null;
+  return below.timestamp + chain.slotSeconds * (n - below.blockNumber);
+}
+
+async function fetchTimestamps(chain: ChainConfig, blockNumbers: bigint[]): Promise<Map<bigint, number>> {
+  const fetched = new Map<bigint, number>();
+
+  for (let i = 0; i < blockNumbers.length; i += RPC_BATCH_SIZE) {
+    const chunk = blockNumbers.slice(i, i + RPC_BATCH_SIZE);
+    const blocks = await withRetry(
+      () => requestBatch(chain, chunk.map(bn => ({
+        method: 'eth_getBlockByNumber',
+        params: [`0x${bn.toString(16)}`, false],
+      }))),
+      `[${chain.name}] batch getBlock(${chunk.length} blocks)`
+    );
+
+    for (const [j, block] of blocks.entries()) {
+      const timestamp = (block as { timestamp?: string } | null)?.timestamp;
+      if (timestamp) {
+        fetched.set(chunk[j], Number(BigInt(timestamp)));
+        continue;
+      }
+      // The node rejected this entry of the batch; ask for it on its own
+      const single = await withRetry(
+        () => getClient(chain).getBlock({ blockNumber: chunk[j] }),
+        `[${chain.name}] getBlock(${chunk[j]})`
+      );
+      fetched.set(chunk[j], Number(single.timestamp));
+    }
+  }
+
+  return fetched;
+}
+
+/**
+ * Resolves block timestamps from the block_timestamps cache first, then by
+ * interpolation between cached neighbours where the chain's slot time makes
+ * that exact, and only then from the RPC as JSON-RPC batches. Fetched
+ * timestamps are cached; interpolated ones are cheap to derive again.
+ */
+export async function getBlockTimestamps(chain: ChainConfig, blockNumbers: bigint[]): Promise<Map<bigint, number>> {
+  const unique = [...new Set(blockNumbers)];
+  const timestamps = await getCachedTimestamps(chain.name, unique);
+  const counts: Record<TimestampSource, number> = { cached: timestamps.size, interpolated: 0, fetched: 0 };
+
+  const missing: bigint[] = [];
+  for (const bn of unique) {
+    if (timestamps.has(bn)) continue;
+    const interpolated = await interpolateTimestamp(chain, bn);
+    if (interpolated !== null) {
+      timestamps.set(bn, interpolated);
+      counts.interpolated++;
+    } else {
+      missing.push(bn);
+    }
+  }
+
+  if (missing.length > 0) {
+    const fetched = await fetchTimestamps(chain, missing);
+    await cacheBlockTimestamps(chain.name, fetched);
+    for (const [bn, ts] of fetched) timestamps.set(bn, ts);
+    counts.fetched = fetched.size;
+  }
+
+  console.log(`  Timestamps: ${counts.cached} cached, ${counts.interpolated} interpolated, ${counts.fetched} fetched`);
+  return timestamps;
+}
@@ -0,0 +1,171 @@
+import { type Chain, type Log } from 'viem';
+import { mainnet, polygon, arbitrum, bsc } from 'viem/chains';
+import { POLYGON_RELAY_ABI } from './config';
+import { decodeSmartWalletEvent, decodeRelayEvent, type DecodedEvent } from './eventDecoder';
+
+// A Railgun contract indexed on a chain, with the decoder used for its logs
+export interface ContractConfig {
+  name: 'SmartWallet' | 'Relay'; // Stored in events.contractName
+  address: `0x${string}`;
+  decode: (log: Log) => DecodedEvent[];
+}
+
+// Everything the indexer engine needs to know about a chain
+export interface ChainConfig {
+  name: string; // Stored in the `chain` column of every table
+  label: string; // Display name in the UI
+  viemChain: Chain;
+  rpcUrls: string[]; // Pooled, see rpcPool.ts
+  wsUrl: string | null; // newHeads subscription for the follow mode; heads are polled without one
+  contracts: ContractConfig[]; // In priority order for cross-contract duplicates (see decodeLogs)
+  startBlock: bigint;
+  deploymentBlock: bigint; // First block of the oldest contract; history from a later startBlock misses earlier shields
+  confirmations: bigint;
+  slotSeconds: number | null; // Fixed block time, if consensus enforces one (used to interpolate timestamps)
+  batchSize: bigint; // Initial blocks per getLogs request; the engine adapts and persists it
+  batchDelayMs: number; // Pause between batches to stay under RPC rate limits
+  headPollMs: number; // How often a following indexer asks for the head (without wsUrl)
+  restartDelayMs: number; // How long start-all.ts waits before restarting an indexer that exited
+  cursorKey: string; // metadata key holding the last indexed block
+  defillamaKey: string; // Chain prefix for DeFiLlama coin IDs ("<key>:<address>")
+  wrappedNative: `0x${string}`; // Checksummed ERC-20 whose price stands in for the gas token's
+}
+
+// RPC env vars take a comma-separated list; requests are spread across the endpoints by rpcPool.ts
+function rpcUrlsFromEnv(value: string | undefined, fallback: string): string[] {
+  const urls = (value || '').split(',').map(url => url.trim()).filter(Boolean);
+  return urls.length > 0 ? urls : [fallback];
+}
+
+// Ethereum mainnet
+// Start block - RailgunSmartWallet deployment ~Feb 2023 (block 16,634,349)
+// Alchemy allows larger batches (~2000 blocks), public RPCs allow ~1000
+const ethereum: ChainConfig = {
+  name: 'ethereum',
+  label: 'Ethereum',
+  viemChain: mainnet,
+  rpcUrls: rpcUrlsFromEnv(process.env.ETH_RPC_URL, 'https://eth.llamarpc.com'),
+  wsUrl: process.env.ETH_WS_URL || null,
+  contracts: [
+    // Relay proxy - emits most Shield/Unshield events on Ethereum. Listed first so
+    // its copy wins when a Shield/Unshield also comes through the SmartWallet.
+    { name: 'Relay', address: '0xfa7093cdd9ee6932b4eb2c9e1cde7ce00b1fa4b9', decode: log => decodeRelayEvent(log) },
+    // RailgunSmartWallet - 5-param Shield and tuple-token Unshield
+    { name: 'SmartWallet', address: '0xc0bef2d373a1efade8b952f33c1370e486f209cc', decode: log => decodeSmartWalletEvent(log) },
+  ],
+  startBlock: process.env.START_BLOCK ? BigInt(process.env.START_BLOCK) : 16_634_349n,
+  deploymentBlock: 16_634_349n,
+  confirmations: 12n,
+  slotSeconds: 12, // Post-merge slots; a missed slot only ever widens the gap
+  batchSize: BigInt(process.env.BATCH_SIZE || '1000'),
+  batchDelayMs: parseInt(process.env.BATCH_DELAY_MS || '0'), // 0 for paid RPCs; set to 2000 for public RPCs
+  headPollMs: 4_000,
+  restartDelayMs: 60_000,
+  cursorKey: 'last_indexed_block_eth',
+  defillamaKey: 'ethereum',
+  wrappedNative: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', // WETH
+};
+
+// Polygon mainnet
+// SmartWallet deployed at 23,580,067, Relay at 28,062,088, but the first real
+// events appear around block 73,900,000 so indexing starts just before that.
+// Infura allows huge block ranges - limited by 10k logs per response, not block count
+const polygonChain: ChainConfig = {
+  name: 'polygon',
+  label: 'Polygon',
+  viemChain: polygon,
+  rpcUrls: rpcUrlsFromEnv(process.env.POLYGON_RPC_URL, 'https://polygon-mainnet.infura.io/v3/4354acaa8fa44b48b106f9596411a10e'),
+  wsUrl: process.env.POLYGON_WS_URL || null,
+  contracts: [
+    // RailgunSmartWallet - handles Shield/Transact/Unshield events
+    { name: 'SmartWallet', address: '0x19b620929f97b7b990801496c3b361ca5def8c71', decode: log => decodeSmartWalletEvent(log) },
+    // Relay proxy - uses the simplified address-based Unshield
+    { name: 'Relay', address: '0x4cd00e387622c35bddb9b4c962c136462338bc31', decode: log => decodeRelayEvent(log, POLYGON_RELAY_ABI) },
+  ],
+  startBlock: process.env.POLYGON_START_BLOCK ? BigInt(process.env.POLYGON_START_BLOCK) : 73_800_000n,
+  deploymentBlock: 23_580_067n,
+  confirmations: 12n,
+  slotSeconds: null, // Block time has changed over the chain's history
+  batchSize: BigInt(process.env.POLYGON_BATCH_SIZE || '100000'),
+  batchDelayMs: parseInt(process.env.POLYGON_BATCH_DELAY_MS || '2000'), // Infura free tier needs ~2s between batches
+  headPollMs: 4_000,
+  restartDelayMs: 90_000, // Longer delay for Polygon due to rate limits
+  cursorKey: 'last_indexed_block_polygon',
+  defillamaKey: 'polygon',
+  wrappedNative: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', // WPOL (formerly WMATIC)
+};
+
+// Arbitrum One
+// The RailgunSmartWallet proxy is deployed at the same address as on Ethereum
+// (block 56,109,834) and emits the standard 5-param Shield and tuple-based Unshield.
+// Blocks are ~0.25s apart, so batches span many more blocks than on Ethereum.
+const arbitrumChain: ChainConfig = {
+  name: 'arbitrum',
+  label: 'Arbitrum',
+  viemChain: arbitrum,
+  rpcUrls: rpcUrlsFromEnv(process.env.ARBITRUM_RPC_URL, 'https://arb1.arbitrum.io/rpc'),
+  wsUrl: process.env.ARBITRUM_WS_URL || null,
+  contracts: [
+    { name: 'Relay', address: '0xfa7093cdd9ee6932b4eb2c9e1cde7ce00b1fa4b9', decode: log => decodeRelayEvent(log) },
+  ],
+  startBlock: process.env.ARBITRUM_START_BLOCK ? BigInt(process.env.ARBITRUM_START_BLOCK) : 56_109_834n,
+  deploymentBlock: 56_109_834n,
+  confirmations: 20n,
+  slotSeconds: null, // Sequencer produces blocks irregularly
+  batchSize: BigInt(process.env.ARBITRUM_BATCH_SIZE || '50000'),
+  batchDelayMs: parseInt(process.env.ARBITRUM_BATCH_DELAY_MS || '1000'),
+  headPollMs: 2_000,
+  restartDelayMs: 60_000,
+  cursorKey: 'last_indexed_block_arbitrum',
+  defillamaKey: 'arbitrum',
+  wrappedNative: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1', // WETH
+};
+
+// BNB Smart Chain
+// RailgunSmartWallet proxy deployed ~block 16,076,750 (Mar 2022). It emits the same
+// Shield/Unshield topics as the Ethereum proxy (see BSC_EVENT_SIGNATURES), so the
+// standard Relay decoder handles it. Public BSC endpoints cap eth_getLogs at ~5000 blocks.
+const bscChain: ChainConfig = {
+  name: 'bsc',
+  label: 'BSC',
+  viemChain: bsc,
+  rpcUrls: rpcUrlsFromEnv(process.env.BSC_RPC_URL, 'https://bsc-dataseed.bnbchain.org'),
+  wsUrl: process.env.BSC_WS_URL || null,
+  contracts: [
+    { name: 'Relay', address: '0x590162bf4b50f6576a459b75309ee21d92178a10', decode: log => decodeRelayEvent(log) },
+  ],
+  startBlock: process.env.BSC_START_BLOCK ? BigInt(process.env.BSC_START_BLOCK) : 16_076_750n,
+  deploymentBlock: 16_076_750n,
+  confirmations: 15n,
+  slotSeconds: null, // Block time has been cut several times by hardforks
+  batchSize: BigInt(process.env.BSC_BATCH_SIZE || '5000'),
+  batchDelayMs: parseInt(process.env.BSC_BATCH_DELAY_MS || '1000'),
+  headPollMs: 3_000,
+  restartDelayMs: 60_000,
+  cursorKey: 'last_indexed_block_bsc',
+  defillamaKey: 'bsc',
+  wrappedNative: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c', // WBNB
+};
+
+// Chain registry - adding a chain means adding an entry here
+export const CHAINS = {
+  ethereum,
+  polygon: polygonChain,
+  arbitrum: arbitrumChain,
+  bsc: bscChain,
+} satisfies Record<string, ChainConfig>;
+
+export type SupportedChain = keyof typeof CHAINS;
+
+export const CHAIN_NAMES = Object.keys(CHAINS) as SupportedChain[];
+
+export function isSupportedChain(value: string | undefined | null): value is SupportedChain {
+  return !!value && Object.prototype.hasOwnProperty.call(CHAINS, value);
+}
+
+export function getChainConfig(name: string): ChainConfig {
+  if (!isSupportedChain(name)) {
+    throw new Error(`Unknown chain "${name}". Supported chains: ${CHAIN_NAMES.join(', ')}`);
+  }
+  return CHAINS[name];
+}
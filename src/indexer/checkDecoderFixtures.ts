@@ -0,0 +1,56 @@
+import { parseArgs } from 'node:util';
+import { loadDecoderFixtures, decodeFixtureLog, toFixtureEvents, diffDecodedEvents } from './decoderFixtures';
+
+// Usage: bun run src/indexer/checkDecoderFixtures.ts [--require-recorded]
+// Exits non-zero when any fixture decodes differently from its expected output.
+// Also lists the signatures only covered by hand-encoded (synthetic) cases: those
+// were built from the decoder's own reading of the layout, so they catch
+// regressions but can't show that reading is right. With --require-recorded,
+// such a signature fails the check too.
+async function main() {
+  const { values } = parseArgs({ options: { 'require-recorded': { type: 'boolean' } } });
+  const fixtures = loadDecoderFixtures();
+  if (fixtures.length === 0) {
+    throw new Error('No decoder fixtures found');
+  }
+
+  let passed = 0;
+  let failed = 0;
+  const unrecorded: string[] = [];
+
+  for (const fixture of fixtures) {
+    console.log(`${fixture.topic0} ${fixture.description}`);
+    if (!fixture.cases.some(c => c.source === 'archive')) unrecorded.push(fixture.topic0);
+
+    for (const testCase of fixture.cases) {
+      let diffs: string[];
+      try {
+        const actual = toFixtureEvents(decodeFixtureLog(testCase.chain, testCase.log));
+        diffs = diffDecodedEvents(testCase.expected, actual);
+      } catch (err) {
+        diffs = [`decoder threw: ${err instanceof Error ? err.message : String(err)}`];
+      }
+
+      if (diffs.length === 0) {
+        passed++;
+        console.log(`  ok    ${testCase.name}`);
+      } else {
+        failed++;
+        console.log(`  FAIL  ${testCase.name}`);
+        for (const diff of diffs) console.log(`        ${diff}`);
+      }
+    }
+  }
+
+  console.log(`\n${passed} passed, ${failed} failed`);
+  if (unrecorded.length > 0) {
+    console.log(`${unrecorded.length} of ${fixtures.length} signatures have no recorded case yet (add one with decoder:add):`);
+    for (const topic0 of unrecorded) console.log(`  ${topic0}`);
+  }
+  if (failed > 0 || (values['require-recorded'] && unrecorded.length > 0)) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
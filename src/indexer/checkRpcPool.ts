@@ -0,0 +1,153 @@
+import { RpcPool, JsonRpcResponseError, type EndpointHealth } from './rpcPool';
+import { MockRpcServer, type MockRpcHandler } from './mockRpcServer';
+
+// Usage: bun run src/indexer/checkRpcPool.ts
+// Drives an RpcPool against local mock JSON-RPC servers through rate limits,
+// timeouts, node errors, rejected batches and a block hash mismatch.
+// Exits non-zero when the pool doesn't fail over or bench endpoints as expected.
+
+const POOL_TIMEOUT_MS = 300;
+const GOOD_HASH = `0x${'a'.repeat(64)}`;
+const FORKED_HASH = `0x${'b'.repeat(64)}`;
+
+const servers: MockRpcServer[] = [];
+let passed = 0;
+let failed = 0;
+
+function mock(handle: MockRpcHandler): MockRpcServer {
+  const server = new MockRpcServer(handle);
+  servers.push(server);
+  return server;
+}
+
+// Answers eth_blockNumber with `head`, so a result shows which endpoint served it
+function healthy(head: number, blockHash = GOOD_HASH): MockRpcHandler {
+  return ({ method }) => method === 'eth_getBlockByNumber'
+    ? { result: { number: '0x10', hash: blockHash } }
+    : { result: `0x${head.toString(16)}` };
+}
+
+function expect(name: string, ok: boolean, detail: string): void {
+  if (ok) {
+    passed++;
+    console.log(`  ok    ${name}`);
+  } else {
+    failed++;
+    console.log(`  FAIL  ${name}`);
+    console.log(`        ${detail}`);
+  }
+}
+
+// Seconds until the endpoint leaves its cooldown, or null when it isn't benched
+function cooldownSeconds(health: EndpointHealth): number | null {
+  return health.coolingDownUntil ? Math.round((health.coolingDownUntil - Date.now()) / 1000) : null;
+}
+
+async function rateLimitScenario(): Promise<void> {
+  console.log('HTTP 429 and JSON-RPC rate limit errors');
+  const limited = mock(() => new Response('Too Many Requests', { status: 429 }));
+  const throttled = mock(() => ({ error: { code: -32005, message: 'daily request count exceeded, request rate limited' } }));
+  const backup = mock(healthy(0x100));
+  const pool = new RpcPool([limited.url, throttled.url, backup.url], POOL_TIMEOUT_MS);
+
+  const head = await pool.request('eth_blockNumber');
+  expect('fails over to the healthy endpoint', head === '0x100', `got ${JSON.stringify(head)}`);
+
+  const [limitedHealth, throttledHealth] = pool.getHealth();
+  expect('HTTP 429 counted as a rate limit', limitedHealth.rateLimited === 1, `rateLimited = ${limitedHealth.rateLimited}`);
+  expect('JSON-RPC rate limit error counted as a rate limit', throttledHealth.rateLimited === 1, `rateLimited = ${throttledHealth.rateLimited}`);
+  expect('rate-limited endpoint cools down for 30s', cooldownSeconds(limitedHealth) === 30, `cooldown ${cooldownSeconds(limitedHealth)}s`);
+
+  await pool.request('eth_blockNumber');
+  expect('benched endpoints are not tried while another answers', limited.calls.length === 1 && throttled.calls.length === 1,
+    `${limited.calls.length} and ${throttled.calls.length} calls`);
+
+  // Alone in its pool, every request reaches it and the cooldown doubles
+  const alone = new RpcPool([limited.url], POOL_TIMEOUT_MS);
+  for (let i = 0; i < 2; i++) await alone.request('eth_blockNumber').catch(() => {});
+  const [aloneHealth] = alone.getHealth();
+  expect('consecutive rate limits double the cooldown', cooldownSeconds(aloneHealth) === 60, `cooldown ${cooldownSeconds(aloneHealth)}s`);
+}
+
+async function timeoutScenario(): Promise<void> {
+  console.log('Timeouts');
+  const slow = mock(async (call) => {
+    await Bun.sleep(POOL_TIMEOUT_MS * 3);
+    return healthy(0x200)(call);
+  });
+  const backup = mock(healthy(0x201));
+  const pool = new RpcPool([slow.url, backup.url], POOL_TIMEOUT_MS);
+
+  const head = await pool.request('eth_blockNumber');
+  const [slowHealth, backupHealth] = pool.getHealth();
+  expect('fails over after the timeout', head === '0x201', `got ${JSON.stringify(head)}`);
+  expect('timeout recorded on the slow endpoint', slowHealth.timeouts === 1 && slowHealth.lastError?.startsWith('timeout:') === true,
+    `timeouts = ${slowHealth.timeouts}, lastError = ${slowHealth.lastError}`);
+  expect('timed-out endpoint cools down for 10s', cooldownSeconds(slowHealth) === 10, `cooldown ${cooldownSeconds(slowHealth)}s`);
+  expect('healthy endpoint untouched', backupHealth.errors === 0 && cooldownSeconds(backupHealth) === null,
+    `errors = ${backupHealth.errors}, cooldown ${cooldownSeconds(backupHealth)}s`);
+}
+
+async function nodeErrorScenario(): Promise<void> {
+  console.log('Node errors and batches');
+  const reverting = mock(() => ({ error: { code: -32000, message: 'execution reverted' } }));
+  const backup = mock(healthy(0x300));
+  const pool = new RpcPool([reverting.url, backup.url], POOL_TIMEOUT_MS);
+
+  const err = await pool.request('eth_call', [{}, 'latest']).then(() => null, (e: unknown) => e);
+  expect('node error surfaces without failing over', err instanceof JsonRpcResponseError && err.code === -32000 && backup.calls.length === 0,
+    `got ${err instanceof Error ? err.message : String(err)}, ${backup.calls.length} calls to the backup`);
+  expect('node error not charged to the endpoint', pool.getHealth()[0].errors === 0, `errors = ${pool.getHealth()[0].errors}`);
+
+  const noBatches = mock(() => Response.json({ jsonrpc: '2.0', id: null, error: { code: -32600, message: 'batch requests are not supported' } }));
+  const batchPool = new RpcPool([noBatches.url, backup.url], POOL_TIMEOUT_MS);
+  const results = await batchPool.requestBatch([
+    { method: 'eth_blockNumber', params: [] },
+    { method: 'eth_chainId', params: [] },
+  ]);
+  expect('rejected batch fails over', results.length === 2 && results[0] === '0x300', `got ${JSON.stringify(results)}`);
+
+  const down = new RpcPool([noBatches.url], POOL_TIMEOUT_MS);
+  const batchErr = await down.requestBatch([{ method: 'eth_blockNumber', params: [] }]).then(() => null, (e: unknown) => e);
+  expect('no endpoint left: the last failure is thrown', batchErr instanceof Error && batchErr.message.includes('Batch rejected'),
+    `got ${batchErr instanceof Error ? batchErr.message : String(batchErr)}`);
+}
+
+async function consistencyScenario(): Promise<void> {
+  console.log('Block hash consistency');
+  const forked = mock(healthy(0x400, FORKED_HASH));
+  const first = mock(healthy(0x401));
+  const second = mock(healthy(0x402));
+  const pool = new RpcPool([forked.url, first.url, second.url], POOL_TIMEOUT_MS);
+
+  await pool.checkConsistency(16n);
+  const [forkedHealth, firstHealth, secondHealth] = pool.getHealth();
+  expect('minority hash marked inconsistent', forkedHealth.consistent === false, `consistent = ${forkedHealth.consistent}`);
+  expect('majority marked consistent', firstHealth.consistent === true && secondHealth.consistent === true,
+    `consistent = ${firstHealth.consistent}, ${secondHealth.consistent}`);
+  expect('inconsistent endpoint benched for 10 minutes', cooldownSeconds(forkedHealth) === 600, `cooldown ${cooldownSeconds(forkedHealth)}s`);
+
+  const head = await pool.request('eth_blockNumber');
+  expect('requests avoid the inconsistent endpoint', head !== '0x400' && forked.callsTo('eth_blockNumber') === 0, `got ${JSON.stringify(head)}`);
+  expect('API key redacted from the health report', pool.getHealth().every(h => !h.url.includes('secret-key')),
+    pool.getHealth().map(h => h.url).join(', '));
+}
+
+async function main() {
+  try {
+    await rateLimitScenario();
+    await timeoutScenario();
+    await nodeErrorScenario();
+    await consistencyScenario();
+  } finally {
+    for (const server of servers) server.stop();
+  }
+
+  console.log(`\n${passed} passed, ${failed} failed`);
+  if (failed > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -1,27 +1,5 @@
 import { type Abi } from 'viem';
 
-// Environment configuration
-export const RPC_URL = process.env.ETH_RPC_URL || 'https://eth.llamarpc.com';
-
-// Start block - RailgunSmartWallet deployment ~Feb 2023 (block 16,634,349)
-// Can be overridden via START_BLOCK env var
-export const START_BLOCK = process.env.START_BLOCK
-  ? BigInt(process.env.START_BLOCK)
-  : 16_634_349n;
-
-// Indexer settings
-export const CONFIRMATION_BLOCKS = 12n;
-// Alchemy allows larger batches (~2000 blocks), public RPCs allow ~1000
-export const BATCH_SIZE = BigInt(process.env.BATCH_SIZE || '1000');
-
-// Railgun contract addresses on Ethereum mainnet
-export const CONTRACTS = {
-  // RailgunSmartWallet - handles Shield/Transact/Unshield events
-  smartWallet: '0xc0BEF2D373A1EfaDE8B952f33c1370E486f209Cc' as `0x${string}`,
-  // Relay proxy - handles relayed transactions
-  relay: '0xfa7093cdd9ee6932b4eb2c9e1cde7ce00b1fa4b9' as `0x${string}`,
-} as const;
-
 // Ethereum SmartWallet event signatures (topic0 hashes)
 // Shield(uint256,uint256,(bytes32,(uint8,address,uint256),uint120)[],(bytes32[3],bytes32)[],uint256[])
 // Confirmed from Etherscan verified source: fees is uint256[] (same signature as Polygon SmartWallet)
@@ -153,5 +131,98 @@ export const RELAY_ABI: Abi = [
   },
 ] as const;
 
+// Relay contract on Polygon uses simplified event structure
+// Unshield(address to, address token, uint256 amount, uint256 fee)
+// Shield events also exist but with signature 0x4be10945...
+// Note: Polygon uses address instead of tuple for token parameter
+export const POLYGON_RELAY_ABI: Abi = [
+  {
+    type: 'event',
+    name: 'Unshield',
+    inputs: [
+      { name: 'to', type: 'address', indexed: false },
+      { name: 'token', type: 'address', indexed: false }, // Simplified: just address, not tuple
+      { name: 'amount', type: 'uint256', indexed: false },
+      { name: 'fee', type: 'uint256', indexed: false },
+    ],
+  },
+  // Note: Shield event signature 0x4be10945... doesn't match standard ABI
+  // We'll handle it manually in the decoder
+] as const;
+
+// Known Polygon event signatures
+export const POLYGON_EVENT_SIGNATURES = {
+  // Relay contract events
+  RELAY_UNSHIELD: '0x49fed1d0b752ce30eee63c7a81133f3363b532fec5d4d7dd1ccfd005de4555e1',
+  RELAY_SHIELD: '0x4be109453ef7e895dc7215c929fff9b76b51483d56a4d04548b4866e9aa7c5ea',
+  // SmartWallet contract events
+  SMARTWALLET_SHIELD: '0x3a5b9dc26075a3801a6ddccf95fec485bb7500a91b44cec1add984c21ee6db3b',
+  SMARTWALLET_UNSHIELD: '0xd93cf895c7d5b2cd7dc7a098b678b3089f37d91f48d9b83a0800a91cbdf05284',
+} as const;
+
+// Known BSC event signatures (RailgunSmartWallet proxy 0x5901...)
+// BSC runs the same contract code as Ethereum: the legacy 4-param Shield before the
+// fee upgrade, then the 5-param Shield with fees, and the tuple-based Unshield.
+export const BSC_EVENT_SIGNATURES = {
+  RELAY_SHIELD_LEGACY: '0xc3821e11e71307afd1d94a490660178ff37aefdd3c0514e5dd08937bd7024f34',
+  SMARTWALLET_SHIELD: ETH_EVENT_SIGNATURES.SMARTWALLET_SHIELD,
+  SMARTWALLET_UNSHIELD: ETH_EVENT_SIGNATURES.SMARTWALLET_UNSHIELD,
+} as const;
+
+// Private transaction events, emitted by the SmartWallet on every chain
+// Transact(uint256,uint256,bytes32[],(bytes32[4],bytes32,bytes32,bytes,bytes)[])
+// Nullified(uint16,bytes32[]) - v3 contracts
+// Nullifiers(uint256,uint256[]) - legacy v2 contracts (before the Mar 2023 upgrade)
+export const PRIVATE_TX_EVENT_SIGNATURES = {
+  TRANSACT: '0x56a618cda1e34057b7f849a5792f6c8587a2dbe11c83d0254e72cb3daffda7d1',
+  NULLIFIED: '0x781745c57906dc2f175fec80a9c691744c91c48a34a83672c41c2604774eb11f',
+  NULLIFIERS_LEGACY: '0x78b6af109cf8ed292e957cdc2975e50bfd37995f5c38d35dc10e2ed0007cbd09',
+} as const;
+
+// Only the counts and tree positions are read from these events;
+// ciphertext and commitment hashes are decoded but never stored.
+export const PRIVATE_TX_ABI: Abi = [
+  {
+    type: 'event',
+    name: 'Transact',
+    inputs: [
+      { name: 'treeNumber', type: 'uint256', indexed: false },
+      { name: 'startPosition', type: 'uint256', indexed: false },
+      { name: 'hash', type: 'bytes32[]', indexed: false },
+      {
+        name: 'ciphertext',
+        type: 'tuple[]',
+        indexed: false,
+        components: [
+          { name: 'ciphertext', type: 'bytes32[4]' },
+          { name: 'blindedSenderViewingKey', type: 'bytes32' },
+          { name: 'blindedReceiverViewingKey', type: 'bytes32' },
+          { name: 'annotationData', type: 'bytes' },
+          { name: 'memo', type: 'bytes' },
+        ],
+      },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'Nullified',
+    inputs: [
+      { name: 'treeNumber', type: 'uint16', indexed: false },
+      { name: 'nullifier', type: 'bytes32[]', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'Nullifiers',
+    inputs: [
+      { name: 'treeNumber', type: 'uint256', indexed: false },
+      { name: 'nullifier', type: 'uint256[]', indexed: false },
+    ],
+  },
+] as const;
+
+// Token standards a Railgun commitment can hold (TokenType 0, 1, 2)
+export type TokenStandard = 'erc20' | 'erc721' | 'erc1155';
+
 // Event type mapping
-export type EventType = 'deposit' | 'withdrawal' | 'relayer_payment' | 'other';
+export type EventType = 'deposit' | 'withdrawal' | 'transact' | 'nullifier' | 'relayer_payment' | 'other';
@@ -0,0 +1,74 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { isDeepStrictEqual } from 'node:util';
+import { formatLog, type Log, type RpcLog } from 'viem';
+import { getChainConfig } from './chains';
+import { type DecodedEvent } from './eventDecoder';
+
+// Golden corpus for the event decoders: one file per topic0, each holding raw
+// logs (as eth_getLogs returns them) and the DecodedEvent[] they must decode to.
+// checkDecoderFixtures.ts diffs the decoders against it; addDecoderFixture.ts
+// grows it from logs in the RPC replay archive.
+
+export interface DecoderFixtureCase {
+  name: string;
+  chain: string;
+  source: 'archive' | 'synthetic'; // Recorded from a real chain, or ABI-encoded by hand
+  log: RpcLog;
+  expected: DecodedEvent[];
+}
+
+export interface DecoderFixtureFile {
+  topic0: string;
+  description: string;
+  cases: DecoderFixtureCase[];
+}
+
+export function getDecoderFixturesDir(): string {
+  return process.env.DECODER_FIXTURES_DIR || 'fixtures/decoder';
+}
+
+export function loadDecoderFixtures(dir = getDecoderFixturesDir()): DecoderFixtureFile[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => JSON.parse(readFileSync(join(dir, file), 'utf8')) as DecoderFixtureFile);
+}
+
+export function saveDecoderFixture(fixture: DecoderFixtureFile, dir = getDecoderFixturesDir()): void {
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, `${fixture.topic0.toLowerCase()}.json`), JSON.stringify(fixture, null, 2) + '\n');
+}
+
+// Runs a log through the decoder of the contract that emitted it, exactly as the engine would
+export function decodeFixtureLog(chainName: string, rpcLog: RpcLog): DecodedEvent[] {
+  const chain = getChainConfig(chainName);
+  const contract = chain.contracts.find(c => c.address.toLowerCase() === rpcLog.address.toLowerCase());
+  if (!contract) {
+    throw new Error(`[${chainName}] ${rpcLog.address} is not an indexed contract`);
+  }
+  return contract.decode(formatLog(rpcLog) as Log);
+}
+
+// Decoder output as it would be written to a fixture (undefined fields dropped, bigints never appear)
+export function toFixtureEvents(events: DecodedEvent[]): DecodedEvent[] {
+  return JSON.parse(JSON.stringify(events));
+}
+
+// One line per differing field, e.g. "[0].metadata.fee: expected "25", got undefined"
+export function diffDecodedEvents(expected: unknown, actual: unknown, path = ''): string[] {
+  if (isDeepStrictEqual(expected, actual)) return [];
+
+  const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object';
+  if (isObject(expected) && isObject(actual) && Array.isArray(expected) === Array.isArray(actual)) {
+    const keys = [...new Set([...Object.keys(expected), ...Object.keys(actual)])];
+    return keys.flatMap(key => diffDecodedEvents(
+      expected[key],
+      actual[key],
+      Array.isArray(expected) ? `${path}[${key}]` : `${path}.${key}`
+    ));
+  }
+
+  return [`${path || '(root)'}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+}
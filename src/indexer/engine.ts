@@ -0,0 +1,486 @@
+import { type Log } from 'viem';
+import { db, schema } from '../db/client';
+import { eq } from 'drizzle-orm';
+import { type ChainConfig, type ContractConfig } from './chains';
+import { type TokenStandard } from './config';
+import { type DecodedEvent } from './eventDecoder';
+import { getClient, checkRpcConsistency, saveRpcHealth, withRetry, sleep, isLogRangeError } from './rpc';
+import { getBlockTimestamps, cacheBlockTimestamps } from './blockTimestamps';
+import { detectReorg, rollbackToBlock, recordBlockHashes } from './reorg';
+import { resolveTokenIds, clearTokenCache, normalizeAmount } from './tokenResolver';
+import { quarantineLogs } from './quarantine';
+import { archiveRawLogs } from './rawLogArchive';
+import { HeadWatcher } from './headWatcher';
+import { flushMetrics, indexerBatches, indexerBlocksBehind, indexerDecodeFailures, indexerEvents } from '../metrics';
+
+// Insert in chunks of 100 to avoid SQLite variable limits
+const INSERT_CHUNK_SIZE = 100;
+
+// How often RPC endpoints are re-checked for agreeing block hashes during a long catch-up
+const CONSISTENCY_CHECK_EVERY_BATCHES = 25;
+
+// getLogs window tuning: halve on a too-many-results/range error, double after
+// a run of quiet batches, never beyond MAX_BATCH_GROWTH x the configured size
+const QUIET_BATCH_LOG_COUNT = 100;
+const QUIET_BATCHES_BEFORE_GROWTH = 10;
+const MAX_BATCH_GROWTH = 16n;
+
+export type PendingEvent = {
+  contract: ContractConfig;
+  log: Log<bigint, number, false>;
+  decoded: DecodedEvent;
+  subIndex: number; // Position within the log (Shield can have multiple commitments)
+};
+
+export type ContractLog = {
+  contract: ContractConfig;
+  log: Log<bigint, number, false>;
+};
+
+// A fetched log that no decoder produced an event for
+export type UndecodedLog = ContractLog;
+
+// What a withdrawal's transaction receipt adds to its events: the sender (the relayer) and the gas paid
+export interface WithdrawalTx {
+  from: string;
+  gasUsed: number | null; // null from archive chunks written before gas was kept
+  effectiveGasPriceWei: string | null;
+}
+
+// Where building event rows gets the data logs don't carry. The indexer asks the
+// RPC (rpcRowSources); redecode.ts answers from the raw log archive instead.
+export interface EventRowSources {
+  blockTimestamps(blockNumbers: bigint[]): Promise<Map<bigint, number>>;
+  withdrawalTx(txHash: string): Promise<WithdrawalTx | null>;
+  tokenIds(tokens: Map<string, TokenStandard>): Promise<Map<string, number | null>>; // Keyed by token address
+}
+
+export async function getLastIndexedBlock(chain: ChainConfig): Promise<bigint> {
+  const row = await db.select()
+    .from(schema.metadata)
+    .where(eq(schema.metadata.key, chain.cursorKey))
+    .get();
+  return row?.value ? BigInt(row.value) : chain.startBlock;
+}
+
+async function setLastIndexedBlock(chain: ChainConfig, block: bigint): Promise<void> {
+  await db.insert(schema.metadata)
+    .values({ key: chain.cursorKey, value: block.toString() })
+    .onConflictDoUpdate({
+      target: schema.metadata.key,
+      set: { value: block.toString() },
+    });
+}
+
+async function getBlockHash(chain: ChainConfig, blockNumber: bigint): Promise<string> {
+  const block = await withRetry(
+    () => getClient(chain).getBlock({ blockNumber }),
+    `[${chain.name}] getBlock(${blockNumber})`
+  );
+  await cacheBlockTimestamps(chain.name, new Map([[blockNumber, Number(block.timestamp)]]));
+  return block.hash;
+}
+
+async function getWithdrawalTx(chain: ChainConfig, txHash: string): Promise<WithdrawalTx | null> {
+  try {
+    const receipt = await withRetry(
+      () => getClient(chain).getTransactionReceipt({ hash: txHash as `0x${string}` }),
+      `[${chain.name}] getTransactionReceipt(${txHash})`
+    );
+    return {
+      from: receipt.from,
+      gasUsed: Number(receipt.gasUsed),
+      effectiveGasPriceWei: receipt.effectiveGasPrice.toString(),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function rpcRowSources(chain: ChainConfig): EventRowSources {
+  return {
+    blockTimestamps: blockNumbers => getBlockTimestamps(chain, blockNumbers),
+    withdrawalTx: txHash => getWithdrawalTx(chain, txHash),
+    tokenIds: tokens => resolveTokenIds(chain, tokens),
+  };
+}
+
+// The learned getLogs window survives restarts in metadata, next to the cursor
+function batchSizeKey(chain: ChainConfig): string {
+  return `batch_size_${chain.name}`;
+}
+
+export async function getBatchSize(chain: ChainConfig): Promise<bigint> {
+  const row = await db.select()
+    .from(schema.metadata)
+    .where(eq(schema.metadata.key, batchSizeKey(chain)))
+    .get();
+  return row?.value ? BigInt(row.value) : chain.batchSize;
+}
+
+async function setBatchSize(chain: ChainConfig, size: bigint): Promise<void> {
+  await db.insert(schema.metadata)
+    .values({ key: batchSizeKey(chain), value: size.toString() })
+    .onConflictDoUpdate({
+      target: schema.metadata.key,
+      set: { value: size.toString() },
+    });
+}
+
+export interface FetchedBatch {
+  events: schema.NewEvent[];
+  undecoded: UndecodedLog[];
+  duplicates: number; // Shield/Unshield events dropped as copies from another contract
+  logs: Log<bigint, number, false>[]; // Everything fetched, for the raw log archive
+  blockTimestamps: Map<bigint, number>; // Every block that emitted a log
+  withdrawalTxs: Map<string, WithdrawalTx | null>; // Withdrawal receipts looked up while building rows
+  blockHashes: Map<bigint, string>; // Blocks that emitted logs
+  logCount: number;
+  logSummary: string; // Logs per contract, e.g. "SmartWallet=12, Relay=3"
+}
+
+// Fetches and decodes a block range into event rows without writing anything
+// but token and timestamp caches. Shared by the live indexer and reindex.ts.
+export async function fetchBatchEvents(chain: ChainConfig, fromBlock: bigint, toBlock: bigint): Promise<FetchedBatch> {
+  const client = getClient(chain);
+
+  // Fetch logs from every configured contract
+  const logsPerContract = await withRetry(
+    () => Promise.all(chain.contracts.map(contract =>
+      client.getLogs({ address: contract.address, fromBlock, toBlock })
+    )),
+    `[${chain.name}] getLogs(${fromBlock}-${toBlock})`
+  );
+
+  const logs = logsPerContract.flat();
+  const blockHashes = new Map<bigint, string>();
+  for (const log of logs) {
+    blockHashes.set(log.blockNumber, log.blockHash);
+  }
+
+  const { pending, undecoded, duplicates } = decodeLogs(chain, chain.contracts.flatMap((contract, i) =>
+    logsPerContract[i].map(log => ({ contract, log }))
+  ));
+
+  const logSummary = chain.contracts.map((contract, i) => `${contract.name}=${logsPerContract[i].length}`).join(', ');
+
+  // Timestamps of every log's block, not just the decoded ones, so the archive
+  // can rebuild events for logs a future decoder understands
+  const blockTimestamps = logs.length > 0 ? await getBlockTimestamps(chain, logs.map(l => l.blockNumber)) : new Map<bigint, number>();
+  const withdrawalTxs = new Map<string, WithdrawalTx | null>();
+  const sources: EventRowSources = {
+    ...rpcRowSources(chain),
+    blockTimestamps: async () => blockTimestamps,
+    withdrawalTx: async txHash => {
+      const tx = await getWithdrawalTx(chain, txHash);
+      withdrawalTxs.set(txHash, tx);
+      return tx;
+    },
+  };
+
+  const events = pending.length > 0 ? await buildEventRows(chain, pending, sources) : [];
+  return { events, undecoded, duplicates, logs, blockTimestamps, withdrawalTxs, blockHashes, logCount: logs.length, logSummary };
+}
+
+// Identity of a Shield/Unshield independent of the contract that emitted it
+function transferFingerprint({ log, decoded }: PendingEvent): string | null {
+  if (decoded.eventType !== 'deposit' && decoded.eventType !== 'withdrawal') return null;
+  return [
+    log.transactionHash, decoded.eventType, decoded.tokenAddress?.toLowerCase(), decoded.tokenSubId, decoded.rawAmountWei,
+  ].join('|');
+}
+
+/**
+ * The same Shield/Unshield can reach us through two indexed contracts of a
+ * chain (e.g. the Ethereum Relay proxy and the SmartWallet behind it). Events
+ * are matched on tx, type, token and amount; each one from the contract listed
+ * first in the chain's registry entry cancels at most one match from a later
+ * contract, so repeated identical transfers within one contract survive.
+ */
+function dropCrossContractDuplicates(chain: ChainConfig, pending: PendingEvent[]): { kept: PendingEvent[]; duplicates: number } {
+  const priority = (p: PendingEvent) => chain.contracts.indexOf(p.contract);
+  const ordered = [...pending].sort((a, b) => priority(a) - priority(b));
+
+  const claimed = new Map<string, { contract: ContractConfig; count: number }>();
+  const kept: PendingEvent[] = [];
+  let duplicates = 0;
+  for (const p of ordered) {
+    const fingerprint = transferFingerprint(p);
+    const claim = fingerprint ? claimed.get(fingerprint) : undefined;
+    if (!fingerprint) {
+      kept.push(p);
+    } else if (!claim) {
+      claimed.set(fingerprint, { contract: p.contract, count: 1 });
+      kept.push(p);
+    } else if (claim.contract === p.contract) {
+      claim.count++;
+      kept.push(p);
+    } else if (claim.count > 0) {
+      claim.count--;
+      duplicates++;
+    } else {
+      kept.push(p);
+    }
+  }
+  return { kept, duplicates };
+}
+
+// Runs each log through its contract's decoder (synchronous) and drops
+// cross-contract duplicates; logs that yield nothing are returned separately
+// for the quarantine
+export function decodeLogs(chain: ChainConfig, logs: ContractLog[]): { pending: PendingEvent[]; undecoded: UndecodedLog[]; duplicates: number } {
+  const decodedEvents: PendingEvent[] = [];
+  const undecoded: UndecodedLog[] = [];
+  for (const { contract, log } of logs) {
+    const decoded = contract.decode(log);
+    if (decoded.length === 0) undecoded.push({ contract, log });
+    decoded.forEach((d, subIndex) => decodedEvents.push({ contract, log, decoded: d, subIndex }));
+  }
+  const { kept, duplicates } = dropCrossContractDuplicates(chain, decodedEvents);
+  return { pending: kept, undecoded, duplicates };
+}
+
+// Turns decoded logs into event rows: block timestamps, relayer (tx sender) of
+// withdrawals, token ids and normalized amounts
+export async function buildEventRows(
+  chain: ChainConfig,
+  pending: PendingEvent[],
+  sources: EventRowSources = rpcRowSources(chain),
+): Promise<schema.NewEvent[]> {
+  // Block timestamps: cache, then interpolation, then batched RPC fetches
+  const timestamps = await sources.blockTimestamps(pending.map(p => p.log.blockNumber));
+
+  // Pre-fetch all withdrawal tx receipts in parallel (the sender is the relayer)
+  const withdrawalTxHashes = [...new Set(
+    pending.filter(p => p.decoded.eventType === 'withdrawal').map(p => p.log.transactionHash)
+  )];
+  const receiptEntries = await Promise.all(
+    withdrawalTxHashes.map(async h => [h, await sources.withdrawalTx(h)] as const)
+  );
+  const withdrawalTxs = new Map<string, WithdrawalTx | null>(receiptEntries);
+
+  // Pre-resolve all unique token addresses in one pass (with their ERC standard)
+  const tokenStandards = new Map<string, TokenStandard>();
+  for (const { decoded } of pending) {
+    if (decoded.tokenAddress) tokenStandards.set(decoded.tokenAddress, decoded.tokenStandard ?? 'erc20');
+  }
+  const tokenIdMap = tokenStandards.size > 0 ? await sources.tokenIds(tokenStandards) : new Map<string, number | null>();
+
+  // Fetch decimals for all resolved tokens in parallel
+  const uniqueTokenIds = [...new Set([...tokenIdMap.values()].filter((id): id is number => id !== null))];
+  const tokenDecimalEntries = await Promise.all(
+    uniqueTokenIds.map(async id => {
+      const token = await db.select().from(schema.tokens).where(eq(schema.tokens.id, id)).get();
+      return [id, token?.decimals ?? null] as const;
+    })
+  );
+  const tokenDecimals = new Map<number, number | null>(tokenDecimalEntries);
+
+  const events: schema.NewEvent[] = pending.map(({ contract, log, decoded, subIndex }) => {
+    const tokenId = decoded.tokenAddress ? (tokenIdMap.get(decoded.tokenAddress) ?? null) : null;
+    const decimals = tokenId !== null ? (tokenDecimals.get(tokenId) ?? null) : null;
+
+    let amountNormalized: number | null = null;
+    if (decoded.rawAmountWei && decimals !== null) {
+      amountNormalized = normalizeAmount(decoded.rawAmountWei, decimals);
+    }
+
+    const withdrawalTx = decoded.eventType === 'withdrawal' ? withdrawalTxs.get(log.transactionHash) : undefined;
+    const relayerAddress = withdrawalTx?.from ?? decoded.relayerAddress;
+
+    return {
+      chain: chain.name,
+      txHash: log.transactionHash,
+      logIndex: log.logIndex * 100 + subIndex,
+      blockNumber: Number(log.blockNumber),
+      blockTimestamp: timestamps.get(log.blockNumber)!,
+      contractName: contract.name,
+      eventName: decoded.eventName,
+      eventType: decoded.eventType,
+      tokenId,
+      tokenSubId: decoded.tokenSubId,
+      rawAmountWei: decoded.rawAmountWei,
+      amountNormalized,
+      relayerAddress,
+      fromAddress: decoded.fromAddress,
+      toAddress: decoded.toAddress,
+      gasUsed: withdrawalTx?.gasUsed ?? null,
+      effectiveGasPriceWei: withdrawalTx?.effectiveGasPriceWei ?? null,
+      metadataJson: JSON.stringify(decoded.metadata),
+    };
+  });
+
+  return events;
+}
+
+// Returns the hashes of the blocks seen in this batch (for reorg detection) and how many logs it held
+async function indexBatch(chain: ChainConfig, fromBlock: bigint, toBlock: bigint): Promise<{ blockHashes: Map<bigint, string>; logCount: number }> {
+  console.log(`[${chain.name}] Indexing blocks ${fromBlock} to ${toBlock}...`);
+  const batch = await fetchBatchEvents(chain, fromBlock, toBlock);
+  const { events, undecoded, duplicates, blockHashes, logCount, logSummary } = batch;
+  blockHashes.set(toBlock, await getBlockHash(chain, toBlock));
+
+  // Insert all events in a single transaction (reduces lock contention), marking
+  // their dates dirty so the next analytics run re-aggregates just those
+  if (events.length > 0) {
+    const dates = new Set(events.map(e => new Date(e.blockTimestamp * 1000).toISOString().slice(0, 10)));
+    const now = Math.floor(Date.now() / 1000);
+    await withRetry(
+      async () => {
+        await db.transaction(async (tx) => {
+          for (let i = 0; i < events.length; i += INSERT_CHUNK_SIZE) {
+            const chunk = events.slice(i, i + INSERT_CHUNK_SIZE);
+            await tx.insert(schema.events).values(chunk).onConflictDoNothing();
+          }
+          for (const date of dates) {
+            await tx.insert(schema.dirtyDates)
+              .values({ chain: chain.name, date, reason: 'indexed', markedAt: now })
+              .onConflictDoUpdate({
+                target: [schema.dirtyDates.chain, schema.dirtyDates.date],
+                set: { reason: 'indexed', markedAt: now },
+              });
+          }
+        });
+      },
+      `[${chain.name}] insert ${events.length} events`
+    );
+  }
+
+  await quarantineLogs(chain.name, undecoded);
+  await archiveRawLogs(chain.name, fromBlock, toBlock, batch);
+
+  indexerBatches.inc({ chain: chain.name });
+  indexerEvents.inc({ chain: chain.name }, events.length);
+  for (const { log } of undecoded) {
+    indexerDecodeFailures.inc({ chain: chain.name, topic0: log.topics[0] ?? '(anonymous)' });
+  }
+
+  console.log(`  Processed: ${logSummary}, Decoded=${events.length}, Undecoded=${undecoded.length}, Duplicates=${duplicates}`);
+  return { blockHashes, logCount };
+}
+
+// Where a run of the indexer is, and what it has learned about the getLogs window
+interface IndexerProgress {
+  currentBlock: bigint;
+  batchSize: bigint;
+  maxBatchSize: bigint;
+  quietBatches: number;
+  batchCount: number;
+}
+
+// Indexes batches from the cursor up to `safeBlock`, checking for reorgs before each one
+async function indexUpTo(chain: ChainConfig, progress: IndexerProgress, safeBlock: bigint, keepTokenCache: boolean): Promise<void> {
+  while (progress.currentBlock < safeBlock) {
+    if (++progress.batchCount % CONSISTENCY_CHECK_EVERY_BATCHES === 0) {
+      await checkRpcConsistency(chain, progress.currentBlock);
+    }
+
+    // Roll back anything indexed on blocks that are no longer canonical
+    const forkBlock = await detectReorg(chain.name, bn => getBlockHash(chain, bn));
+    if (forkBlock !== null) {
+      const { eventsRemoved, datesMarked } = await rollbackToBlock(chain.name, chain.cursorKey, forkBlock, progress.currentBlock);
+      console.warn(`[${chain.name}] Reorg detected: rolled back to block ${forkBlock} (depth ${progress.currentBlock - forkBlock}), removed ${eventsRemoved} events, ${datesMarked} dates marked dirty`);
+      progress.currentBlock = forkBlock;
+    }
+
+    const { currentBlock, batchSize, maxBatchSize } = progress;
+    const toBlock = currentBlock + batchSize > safeBlock
+      ? safeBlock
+      : currentBlock + batchSize;
+
+    try {
+      const { blockHashes, logCount } = await indexBatch(chain, currentBlock + 1n, toBlock);
+      await recordBlockHashes(chain.name, blockHashes);
+      await setLastIndexedBlock(chain, toBlock);
+      progress.currentBlock = toBlock;
+      indexerBlocksBehind.set({ chain: chain.name }, Number(safeBlock - toBlock));
+
+      progress.quietBatches = logCount < QUIET_BATCH_LOG_COUNT ? progress.quietBatches + 1 : 0;
+      if (progress.quietBatches >= QUIET_BATCHES_BEFORE_GROWTH && batchSize < maxBatchSize) {
+        progress.batchSize = batchSize * 2n > maxBatchSize ? maxBatchSize : batchSize * 2n;
+        progress.quietBatches = 0;
+        await setBatchSize(chain, progress.batchSize);
+        console.log(`[${chain.name}] Quiet stretch, growing getLogs window to ${progress.batchSize} blocks`);
+      }
+    } catch (err) {
+      // Too many logs or too wide a range for the provider: retry the same start with half the window
+      const rangeBlocks = toBlock - currentBlock;
+      if (isLogRangeError(err) && rangeBlocks > 1n) {
+        progress.batchSize = rangeBlocks / 2n;
+        progress.quietBatches = 0;
+        await setBatchSize(chain, progress.batchSize);
+        console.warn(`[${chain.name}] getLogs rejected ${rangeBlocks} blocks, shrinking window to ${progress.batchSize}`);
+        continue;
+      }
+      console.error(`[${chain.name}] Failed to index batch ${currentBlock + 1n}-${toBlock}:`, err);
+      throw err; // Re-throw after logging; can be changed to continue for resilience
+    }
+
+    // One-off runs clear the token cache periodically to free memory; a
+    // following indexer keeps it, as it only grows with tokens never seen before
+    if (!keepTokenCache) clearTokenCache();
+    await saveRpcHealth(chain);
+
+    // Delay between batches to avoid rate limiting on public RPCs
+    if (chain.batchDelayMs > 0) {
+      await sleep(chain.batchDelayMs);
+    }
+  }
+}
+
+export interface RunIndexerOptions {
+  follow?: boolean; // Keep running after catching up, indexing each newly confirmed range
+}
+
+/**
+ * Indexes a chain from its cursor up to the confirmed head, then returns. With
+ * `follow` it stays up instead, indexing new confirmed blocks as heads arrive;
+ * it only returns by throwing.
+ */
+export async function runIndexer(chain: ChainConfig, { follow = false }: RunIndexerOptions = {}): Promise<void> {
+  console.log(`Starting ${chain.label} indexer${follow ? ' in follow mode' : ''}...`);
+
+  let latestBlock = await withRetry(
+    () => getClient(chain).getBlockNumber(),
+    `[${chain.name}] getBlockNumber`
+  );
+  const safeBlock = latestBlock - chain.confirmations;
+  const currentBlock = await getLastIndexedBlock(chain);
+
+  console.log(`Latest: ${latestBlock}, Safe: ${safeBlock}, Current: ${currentBlock}`);
+  indexerBlocksBehind.set({ chain: chain.name }, Number(safeBlock > currentBlock ? safeBlock - currentBlock : 0n));
+
+  // Endpoints that disagree on a confirmed block are benched before they can feed us logs
+  await checkRpcConsistency(chain, safeBlock);
+
+  const maxBatchSize = chain.batchSize * MAX_BATCH_GROWTH;
+  let batchSize = await getBatchSize(chain);
+  if (batchSize > maxBatchSize) batchSize = maxBatchSize; // BATCH_SIZE was lowered since it was saved
+  console.log(`[${chain.name}] getLogs window: ${batchSize} blocks`);
+
+  const progress: IndexerProgress = { currentBlock, batchSize, maxBatchSize, quietBatches: 0, batchCount: 0 };
+  await indexUpTo(chain, progress, safeBlock, follow);
+
+  if (!follow) {
+    await saveRpcHealth(chain, true);
+    await flushMetrics();
+    console.log('Indexing complete.');
+    return;
+  }
+
+  const heads = new HeadWatcher(chain, latestBlock);
+  heads.start();
+  console.log(`[${chain.name}] Caught up at block ${progress.currentBlock}, following new heads (${heads.description})`);
+  try {
+    for (;;) {
+      latestBlock = await heads.next(latestBlock);
+      const confirmed = latestBlock - chain.confirmations;
+      indexerBlocksBehind.set({ chain: chain.name }, Number(confirmed > progress.currentBlock ? confirmed - progress.currentBlock : 0n));
+      await indexUpTo(chain, progress, confirmed, true);
+    }
+  } finally {
+    heads.stop();
+    await saveRpcHealth(chain, true);
+    await flushMetrics();
+  }
+}
@@ -1,11 +1,12 @@
 import { decodeEventLog, decodeAbiParameters, parseAbiParameters, type Log, type Abi } from 'viem';
-import { SMART_WALLET_ABI, RELAY_ABI, ETH_EVENT_SIGNATURES, type EventType } from './config';
-import { RELAY_ABI as POLYGON_RELAY_ABI, POLYGON_EVENT_SIGNATURES } from './configPolygon';
+import { SMART_WALLET_ABI, RELAY_ABI, PRIVATE_TX_ABI, ETH_EVENT_SIGNATURES, POLYGON_EVENT_SIGNATURES, PRIVATE_TX_EVENT_SIGNATURES, type EventType, type TokenStandard } from './config';
 
 export interface DecodedEvent {
   eventName: string;
   eventType: EventType;
   tokenAddress: string | null;
+  tokenStandard: TokenStandard | null;
+  tokenSubId: string | null; // NFT id within the collection; null for ERC-20
   rawAmountWei: string | null;
   relayerAddress: string | null;
   fromAddress: string | null;
@@ -26,19 +27,33 @@ interface CommitmentPreimage {
   value: bigint;
 }
 
+// Railgun TokenType enum
+const TOKEN_STANDARDS: Record<number, TokenStandard> = { 0: 'erc20', 1: 'erc721', 2: 'erc1155' };
+
+// Token fields for a commitment or unshield token; null for an unknown tokenType
+function tokenFields(token: TokenData): Pick<DecodedEvent, 'tokenAddress' | 'tokenStandard' | 'tokenSubId'> | null {
+  const standard = TOKEN_STANDARDS[Number(token.tokenType)];
+  if (!standard) return null;
+  return {
+    tokenAddress: token.tokenAddress,
+    tokenStandard: standard,
+    tokenSubId: standard === 'erc20' ? null : token.tokenSubID.toString(),
+  };
+}
+
 interface ShieldArgs {
   treeNumber: bigint;
   startPosition: bigint;
   commitments: CommitmentPreimage[];
   shieldCiphertext: unknown[];
-  fees: bigint[];
+  fees?: bigint[]; // Protocol fee per commitment (commitment value is net of it); absent in the legacy 4-param Shield
 }
 
 interface UnshieldArgs {
   to: string;
   token: TokenData;
   amount: bigint;
-  fee: bigint;
+  fee: bigint; // Protocol unshield fee, paid to the treasury (not to the relayer)
 }
 
 // Polygon SmartWallet ABI for Shield and Unshield events
@@ -81,8 +96,68 @@ const POLYGON_SMARTWALLET_ABI = [
   },
 ] as const;
 
+const PRIVATE_TX_TOPICS: ReadonlySet<string> = new Set(Object.values(PRIVATE_TX_EVENT_SIGNATURES));
+
+// Decodes Transact / Nullified into a single count-only event with no token or amount.
+// Returns null when the log is not a private transaction event.
+function decodePrivateTxEvent(log: Log): DecodedEvent[] | null {
+  const eventSig = log.topics[0]?.toLowerCase();
+  if (!eventSig || !PRIVATE_TX_TOPICS.has(eventSig)) return null;
+
+  try {
+    const decoded = decodeEventLog({
+      abi: PRIVATE_TX_ABI,
+      data: log.data,
+      topics: log.topics,
+    });
+    const eventName = decoded.eventName as unknown as string;
+    const args = decoded.args as any;
+
+    if (eventName === 'Transact') {
+      return [{
+        eventName: 'Transact',
+        eventType: 'transact',
+        tokenAddress: null,
+        tokenStandard: null,
+        tokenSubId: null,
+        rawAmountWei: null,
+        relayerAddress: null,
+        fromAddress: null,
+        toAddress: null,
+        metadata: {
+          treeNumber: args.treeNumber.toString(),
+          startPosition: args.startPosition.toString(),
+          commitmentCount: args.hash.length,
+        },
+      }];
+    }
+
+    return [{
+      eventName, // "Nullified" or legacy "Nullifiers"
+      eventType: 'nullifier',
+      tokenAddress: null,
+      tokenStandard: null,
+      tokenSubId: null,
+      rawAmountWei: null,
+      relayerAddress: null,
+      fromAddress: null,
+      toAddress: null,
+      metadata: {
+        treeNumber: args.treeNumber.toString(),
+        nullifierCount: args.nullifier.length,
+      },
+    }];
+  } catch (err) {
+    console.warn(`[decodePrivateTxEvent] Failed to decode private tx event at block ${log.blockNumber}: ${err}`);
+    return [];
+  }
+}
+
 // Returns multiple decoded events for Shield (one per commitment)
 export function decodeSmartWalletEvent(log: Log): DecodedEvent[] {
+  const privateTxEvents = decodePrivateTxEvent(log);
+  if (privateTxEvents) return privateTxEvents;
+
   const eventSig = log.topics[0]?.toLowerCase();
 
   // Try Polygon SmartWallet events first (by signature)
@@ -97,13 +172,13 @@ export function decodeSmartWalletEvent(log: Log): DecodedEvent[] {
       const args = decoded.args as any;
       const events: DecodedEvent[] = [];
 
-      for (const commitment of args.commitments) {
-        // Only process ERC20 tokens (tokenType === 0)
-        if (Number(commitment.token.tokenType) === 0) {
+      for (const [i, commitment] of args.commitments.entries()) {
+        const token = tokenFields(commitment.token);
+        if (token) {
           events.push({
             eventName: 'Shield',
             eventType: 'deposit',
-            tokenAddress: commitment.token.tokenAddress,
+            ...token,
             rawAmountWei: commitment.value.toString(),
             relayerAddress: null,
             fromAddress: null,
@@ -111,6 +186,7 @@ export function decodeSmartWalletEvent(log: Log): DecodedEvent[] {
             metadata: {
               treeNumber: args.treeNumber.toString(),
               startPosition: args.startPosition.toString(),
+              fee: args.fees?.[i]?.toString(),
             },
           });
         }
@@ -132,15 +208,15 @@ export function decodeSmartWalletEvent(log: Log): DecodedEvent[] {
 
       const args = decoded.args as any;
 
-      // Only process ERC20 tokens (tokenType === 0)
-      if (Number(args.token.tokenType) !== 0) {
+      const token = tokenFields(args.token);
+      if (!token) {
         return [];
       }
 
       return [{
         eventName: 'Unshield',
         eventType: 'withdrawal',
-        tokenAddress: args.token.tokenAddress,
+        ...token,
         rawAmountWei: args.amount.toString(),
         relayerAddress: null,
         fromAddress: null,
@@ -166,12 +242,13 @@ export function decodeSmartWalletEvent(log: Log): DecodedEvent[] {
       });
       const args = decoded.args as unknown as ShieldArgs;
       const events: DecodedEvent[] = [];
-      for (const commitment of args.commitments) {
-        if (Number(commitment.token.tokenType) === 0) {
+      for (const [i, commitment] of args.commitments.entries()) {
+        const token = tokenFields(commitment.token);
+        if (token) {
           events.push({
             eventName: 'Shield',
             eventType: 'deposit',
-            tokenAddress: commitment.token.tokenAddress,
+            ...token,
             rawAmountWei: commitment.value.toString(),
             relayerAddress: null,
             fromAddress: null,
@@ -179,6 +256,7 @@ export function decodeSmartWalletEvent(log: Log): DecodedEvent[] {
             metadata: {
               treeNumber: args.treeNumber.toString(),
               startPosition: args.startPosition.toString(),
+              fee: args.fees?.[i]?.toString(),
             },
           });
         }
@@ -200,11 +278,12 @@ export function decodeSmartWalletEvent(log: Log): DecodedEvent[] {
         eventName: 'Unshield',
       });
       const args = decoded.args as unknown as UnshieldArgs;
-      if (Number(args.token.tokenType) !== 0) return [];
+      const token = tokenFields(args.token);
+      if (!token) return [];
       return [{
         eventName: 'Unshield',
         eventType: 'withdrawal',
-        tokenAddress: args.token.tokenAddress,
+        ...token,
         rawAmountWei: args.amount.toString(),
         relayerAddress: null,
         fromAddress: null,
@@ -235,13 +314,13 @@ export function decodeSmartWalletEvent(log: Log): DecodedEvent[] {
         // Shield contains multiple commitments, each with token and value
         const args = decoded.args as unknown as ShieldArgs;
 
-        for (const commitment of args.commitments) {
-          // Only process ERC20 tokens (tokenType === 0)
-          if (commitment.token.tokenType === 0) {
+        for (const [i, commitment] of args.commitments.entries()) {
+          const token = tokenFields(commitment.token);
+          if (token) {
             events.push({
               eventName: 'Shield',
               eventType: 'deposit',
-              tokenAddress: commitment.token.tokenAddress,
+              ...token,
               rawAmountWei: commitment.value.toString(),
               relayerAddress: null,
               fromAddress: null,
@@ -249,18 +328,19 @@ export function decodeSmartWalletEvent(log: Log): DecodedEvent[] {
               metadata: {
                 treeNumber: args.treeNumber.toString(),
                 startPosition: args.startPosition.toString(),
+                fee: args.fees?.[i]?.toString(),
               },
             });
           }
         }
       } else if (eventName === 'Unshield') {
         const args = decoded.args as unknown as UnshieldArgs;
-        // Only process ERC20 tokens (tokenType === 0)
-        if (args.token.tokenType === 0) {
+        const token = tokenFields(args.token);
+        if (token) {
           events.push({
             eventName: 'Unshield',
             eventType: 'withdrawal',
-            tokenAddress: args.token.tokenAddress,
+            ...token,
             rawAmountWei: args.amount.toString(),
             relayerAddress: null,
             fromAddress: null,
@@ -282,6 +362,10 @@ export function decodeSmartWalletEvent(log: Log): DecodedEvent[] {
 }
 
 export function decodeRelayEvent(log: Log, abi?: Abi): DecodedEvent[] {
+  // The Relay proxy is the SmartWallet on Ethereum, Arbitrum and BSC, so it emits these too
+  const privateTxEvents = decodePrivateTxEvent(log);
+  if (privateTxEvents) return privateTxEvents;
+
   // Use provided ABI or default to Ethereum ABI
   const eventAbi = abi || RELAY_ABI;
   
@@ -299,13 +383,13 @@ export function decodeRelayEvent(log: Log, abi?: Abi): DecodedEvent[] {
       // Shield contains multiple commitments, each with token and value
       const args = decoded.args as unknown as ShieldArgs;
 
-      for (const commitment of args.commitments) {
-        // Only process ERC20 tokens (tokenType === 0)
-        if (commitment.token.tokenType === 0) {
+      for (const [i, commitment] of args.commitments.entries()) {
+        const token = tokenFields(commitment.token);
+        if (token) {
           events.push({
             eventName: 'Shield',
             eventType: 'deposit',
-            tokenAddress: commitment.token.tokenAddress,
+            ...token,
             rawAmountWei: commitment.value.toString(),
             relayerAddress: null,
             fromAddress: null,
@@ -313,6 +397,7 @@ export function decodeRelayEvent(log: Log, abi?: Abi): DecodedEvent[] {
             metadata: {
               treeNumber: args.treeNumber.toString(),
               startPosition: args.startPosition.toString(),
+              fee: args.fees?.[i]?.toString(),
             },
           });
         }
@@ -321,26 +406,25 @@ export function decodeRelayEvent(log: Log, abi?: Abi): DecodedEvent[] {
       // Handle both tuple-based (Ethereum) and address-based (Polygon) Unshield events
       const args = decoded.args as any;
       
-      let tokenAddress: string;
+      let token: ReturnType<typeof tokenFields>;
       // Check if token is a tuple (Ethereum) or address (Polygon)
       if (typeof args.token === 'string') {
-        // Polygon: token is just an address
-        tokenAddress = args.token;
+        // Polygon: token is just an address (always ERC20)
+        token = { tokenAddress: args.token, tokenStandard: 'erc20', tokenSubId: null };
       } else if (args.token && typeof args.token === 'object' && 'tokenAddress' in args.token) {
-        // Ethereum: token is a tuple with tokenAddress
-        // Only process ERC20 tokens (tokenType === 0)
-        if (args.token.tokenType !== 0) {
-          return []; // Skip non-ERC20 tokens
-        }
-        tokenAddress = args.token.tokenAddress;
+        // Ethereum: token is a tuple with tokenType, tokenAddress and tokenSubID
+        token = tokenFields(args.token);
       } else {
         return []; // Unknown format
       }
+      if (!token) {
+        return []; // Unknown tokenType
+      }
       
       events.push({
         eventName: 'Unshield',
         eventType: 'withdrawal',
-        tokenAddress,
+        ...token,
         rawAmountWei: args.amount.toString(),
         relayerAddress: null,
         fromAddress: null,
@@ -368,12 +452,13 @@ export function decodeRelayEvent(log: Log, abi?: Abi): DecodedEvent[] {
 
       if (eventName === 'Shield') {
         const args = decoded.args as unknown as ShieldArgs;
-        for (const commitment of args.commitments) {
-          if (commitment.token.tokenType === 0) {
+        for (const [i, commitment] of args.commitments.entries()) {
+          const token = tokenFields(commitment.token);
+          if (token) {
             events.push({
               eventName: 'Shield',
               eventType: 'deposit',
-              tokenAddress: commitment.token.tokenAddress,
+              ...token,
               rawAmountWei: commitment.value.toString(),
               relayerAddress: null,
               fromAddress: null,
@@ -381,17 +466,19 @@ export function decodeRelayEvent(log: Log, abi?: Abi): DecodedEvent[] {
               metadata: {
                 treeNumber: args.treeNumber.toString(),
                 startPosition: args.startPosition.toString(),
+                fee: args.fees?.[i]?.toString(),
               },
             });
           }
         }
       } else if (eventName === 'Unshield') {
         const args = decoded.args as unknown as UnshieldArgs;
-        if (args.token.tokenType === 0) {
+        const token = tokenFields(args.token);
+        if (token) {
           events.push({
             eventName: 'Unshield',
             eventType: 'withdrawal',
-            tokenAddress: args.token.tokenAddress,
+            ...token,
             rawAmountWei: args.amount.toString(),
             relayerAddress: null,
             fromAddress: null,
@@ -427,6 +514,8 @@ export function decodeRelayEvent(log: Log, abi?: Abi): DecodedEvent[] {
           eventName: 'Unshield',
           eventType: 'withdrawal',
           tokenAddress: decoded[1], // token address
+          tokenStandard: 'erc20',
+          tokenSubId: null,
           rawAmountWei: decoded[2].toString(), // amount
           relayerAddress: null,
           fromAddress: null,
@@ -483,6 +572,8 @@ export function decodeRelayEvent(log: Log, abi?: Abi): DecodedEvent[] {
             eventName: 'Shield',
             eventType: 'deposit',
             tokenAddress,
+            tokenStandard: 'erc20',
+            tokenSubId: null,
             rawAmountWei,
             relayerAddress: null,
             fromAddress: null,
@@ -502,7 +593,7 @@ export function decodeRelayEvent(log: Log, abi?: Abi): DecodedEvent[] {
       }
     }
     
-    // Unknown event signature - skip silently
+    // Unknown event signature - the engine quarantines logs that decode to nothing
     return [];
   }
 }
@@ -0,0 +1,68 @@
+import { createPublicClient, webSocket } from 'viem';
+import { type ChainConfig } from './chains';
+import { getClient, withRetry } from './rpc';
+
+// With a subscription, polls only cover for one that went quiet without an error
+const SUBSCRIPTION_FALLBACK_POLL_MS = 30_000;
+
+/**
+ * Tracks the head of a chain for the indexer's follow mode: newHeads over the
+ * chain's WebSocket endpoint when one is configured, eth_blockNumber through
+ * the RPC pool every `headPollMs` otherwise.
+ */
+export class HeadWatcher {
+  private latest = 0n;
+  private wake: (() => void) | null = null;
+  private unwatch: (() => void) | null = null;
+
+  constructor(private chain: ChainConfig, initialHead: bigint) {
+    this.latest = initialHead;
+  }
+
+  get description(): string {
+    return this.chain.wsUrl ? 'newHeads subscription' : `polling every ${this.chain.headPollMs / 1000}s`;
+  }
+
+  start(): void {
+    if (!this.chain.wsUrl || this.unwatch) return;
+    const client = createPublicClient({ chain: this.chain.viemChain, transport: webSocket(this.chain.wsUrl) });
+    this.unwatch = client.watchBlockNumber({
+      onBlockNumber: blockNumber => this.observe(blockNumber),
+      // The transport reconnects by itself; polling carries on in the meantime
+      onError: err => console.warn(`[${this.chain.name}] newHeads subscription error: ${err.message.split('\n')[0]}`),
+    });
+  }
+
+  stop(): void {
+    this.unwatch?.();
+    this.unwatch = null;
+  }
+
+  // Resolves with the head once it is past `head`
+  async next(head: bigint): Promise<bigint> {
+    const pollMs = this.chain.wsUrl ? SUBSCRIPTION_FALLBACK_POLL_MS : this.chain.headPollMs;
+    while (this.latest <= head) {
+      const notified = await new Promise<boolean>(resolve => {
+        const timer = setTimeout(() => resolve(false), pollMs);
+        this.wake = () => {
+          clearTimeout(timer);
+          resolve(true);
+        };
+      });
+      this.wake = null;
+      if (!notified) {
+        this.observe(await withRetry(
+          () => getClient(this.chain).getBlockNumber({ cacheTime: 0 }),
+          `[${this.chain.name}] getBlockNumber`
+        ));
+      }
+    }
+    return this.latest;
+  }
+
+  private observe(blockNumber: bigint): void {
+    if (blockNumber <= this.latest) return;
+    this.latest = blockNumber;
+    this.wake?.();
+  }
+}
@@ -0,0 +1,20 @@
+import { parseArgs } from 'node:util';
+import { getChainConfig } from './chains';
+import { runIndexer } from './engine';
+
+// Usage: bun run src/indexer/indexChain.ts <chain> [--follow]
+async function main() {
+  const { values, positionals } = parseArgs({
+    options: {
+      follow: { type: 'boolean', default: false },
+    },
+    allowPositionals: true,
+  });
+  const chainName = positionals[0] || 'ethereum';
+  await runIndexer(getChainConfig(chainName), { follow: values.follow });
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
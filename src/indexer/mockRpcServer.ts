@@ -0,0 +1,58 @@
+// A local JSON-RPC endpoint for exercising the RPC pool (or the whole indexer,
+// by pointing a *_RPC_URL at it). `handle` answers one call; batches are
+// answered call by call unless the handler takes over the raw HTTP response.
+
+export interface MockRpcCall {
+  id: number | string;
+  method: string;
+  params: unknown[];
+}
+
+// A result, a JSON-RPC error, or a whole HTTP response (a 429, a batch rejection, ...)
+export type MockRpcReply =
+  | { result: unknown }
+  | { error: { code: number; message: string } }
+  | Response;
+
+export type MockRpcHandler = (call: MockRpcCall) => MockRpcReply | Promise<MockRpcReply>;
+
+export class MockRpcServer {
+  private server: ReturnType<typeof Bun.serve>;
+  readonly calls: MockRpcCall[] = [];
+
+  constructor(private handle: MockRpcHandler) {
+    this.server = Bun.serve({
+      port: 0,
+      hostname: '127.0.0.1',
+      fetch: req => this.respond(req),
+    });
+  }
+
+  // With a path segment, as providers put API keys there
+  get url(): string {
+    return `http://127.0.0.1:${this.server.port}/v2/secret-key`;
+  }
+
+  callsTo(method: string): number {
+    return this.calls.filter(call => call.method === method).length;
+  }
+
+  stop(): void {
+    this.server.stop(true);
+  }
+
+  private async respond(req: Request): Promise<Response> {
+    const body = await req.json() as MockRpcCall | MockRpcCall[];
+    const calls = Array.isArray(body) ? body : [body];
+    const payloads: unknown[] = [];
+
+    for (const call of calls) {
+      this.calls.push(call);
+      const reply = await this.handle(call);
+      if (reply instanceof Response) return reply;
+      payloads.push({ jsonrpc: '2.0', id: call.id, ...reply });
+    }
+
+    return Response.json(Array.isArray(body) ? payloads : payloads[0]);
+  }
+}
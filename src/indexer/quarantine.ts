@@ -0,0 +1,83 @@
+import { db, schema } from '../db/client';
+import { and, eq, gte, lte, inArray } from 'drizzle-orm';
+import { type Log } from 'viem';
+import { type ChainConfig, type ContractConfig } from './chains';
+import { type UndecodedLog } from './engine';
+
+const INSERT_CHUNK_SIZE = 100;
+
+function toRow(chain: string, { contract, log }: UndecodedLog, quarantinedAt: number): typeof schema.undecodedLogs.$inferInsert {
+  return {
+    chain,
+    contractName: contract.name,
+    address: log.address.toLowerCase(),
+    blockNumber: Number(log.blockNumber),
+    blockHash: log.blockHash,
+    txHash: log.transactionHash,
+    txIndex: log.transactionIndex,
+    logIndex: log.logIndex,
+    topic0: log.topics[0] ?? null,
+    topicsJson: JSON.stringify(log.topics),
+    data: log.data,
+    quarantinedAt,
+  };
+}
+
+// Stores logs no decoder understood; a log already in quarantine is left as is
+export async function quarantineLogs(chain: string, logs: UndecodedLog[]): Promise<void> {
+  if (logs.length === 0) return;
+
+  const now = Math.floor(Date.now() / 1000);
+  const rows = logs.map(l => toRow(chain, l, now));
+  await db.transaction(async (tx) => {
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      await tx.insert(schema.undecodedLogs).values(rows.slice(i, i + INSERT_CHUNK_SIZE)).onConflictDoNothing();
+    }
+  });
+}
+
+// Re-indexing a range makes its freshly fetched undecoded logs the whole quarantine for that range
+export async function replaceQuarantinedRange(chain: string, fromBlock: bigint, toBlock: bigint, logs: UndecodedLog[]): Promise<void> {
+  await db.delete(schema.undecodedLogs).where(and(
+    eq(schema.undecodedLogs.chain, chain),
+    gte(schema.undecodedLogs.blockNumber, Number(fromBlock)),
+    lte(schema.undecodedLogs.blockNumber, Number(toBlock))
+  ));
+  await quarantineLogs(chain, logs);
+}
+
+export interface QuarantinedLog {
+  id: number;
+  contract: ContractConfig | undefined; // undefined if the contract is no longer configured
+  log: Log<bigint, number, false>;
+}
+
+// Rebuilds viem logs from the quarantine so they can go through the decoders again
+export async function loadQuarantinedLogs(chain: ChainConfig): Promise<QuarantinedLog[]> {
+  const rows = await db.select()
+    .from(schema.undecodedLogs)
+    .where(eq(schema.undecodedLogs.chain, chain.name))
+    .orderBy(schema.undecodedLogs.blockNumber, schema.undecodedLogs.logIndex);
+
+  return rows.map(row => ({
+    id: row.id,
+    contract: chain.contracts.find(c => c.address.toLowerCase() === row.address),
+    log: {
+      address: row.address as `0x${string}`,
+      blockHash: row.blockHash as `0x${string}`,
+      blockNumber: BigInt(row.blockNumber),
+      data: row.data as `0x${string}`,
+      logIndex: row.logIndex,
+      transactionHash: row.txHash as `0x${string}`,
+      transactionIndex: row.txIndex,
+      removed: false,
+      topics: JSON.parse(row.topicsJson),
+    },
+  }));
+}
+
+export async function releaseQuarantinedLogs(ids: number[]): Promise<void> {
+  for (let i = 0; i < ids.length; i += INSERT_CHUNK_SIZE) {
+    await db.delete(schema.undecodedLogs).where(inArray(schema.undecodedLogs.id, ids.slice(i, i + INSERT_CHUNK_SIZE)));
+  }
+}
@@ -0,0 +1,186 @@
+import { gzipSync, gunzipSync } from 'node:zlib';
+import { db, schema } from '../db/client';
+import { and, eq, gte, lte, asc } from 'drizzle-orm';
+import { type Log } from 'viem';
+import { type WithdrawalTx } from './engine';
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// A log as archived: plain JSON values, enough to rebuild the viem log the decoders take
+export interface ArchivedLog {
+  address: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: number;
+  logIndex: number;
+  topics: string[];
+  data: string;
+}
+
+// What a chunk stores besides the logs is what building event rows would
+// otherwise fetch: block timestamps and the receipts (relayer, gas) of withdrawals
+export interface ArchiveContents {
+  logs: ArchivedLog[];
+  blockTimestamps: Record<string, number>; // Keyed by block number
+  txSenders: Record<string, string>; // Keyed by tx hash; only lookups that succeeded
+  txGas?: Record<string, { gasUsed: number; effectiveGasPriceWei: string }>; // Same keys; absent from chunks archived before gas was kept
+}
+
+export interface ArchiveChunk extends ArchiveContents {
+  fromBlock: bigint;
+  toBlock: bigint;
+}
+
+// The parts of a fetched batch the archive keeps
+export interface ArchivableBatch {
+  logs: Log<bigint, number, false>[];
+  blockTimestamps: Map<bigint, number>;
+  withdrawalTxs: Map<string, WithdrawalTx | null>;
+}
+
+export function toArchivedLog(log: Log<bigint, number, false>): ArchivedLog {
+  return {
+    address: log.address.toLowerCase(),
+    blockNumber: Number(log.blockNumber),
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    transactionIndex: log.transactionIndex,
+    logIndex: log.logIndex,
+    topics: log.topics,
+    data: log.data,
+  };
+}
+
+export function fromArchivedLog(log: ArchivedLog): Log<bigint, number, false> {
+  return {
+    address: log.address as `0x${string}`,
+    blockHash: log.blockHash as `0x${string}`,
+    blockNumber: BigInt(log.blockNumber),
+    data: log.data as `0x${string}`,
+    logIndex: log.logIndex,
+    transactionHash: log.transactionHash as `0x${string}`,
+    transactionIndex: log.transactionIndex,
+    removed: false,
+    topics: log.topics as [`0x${string}`, ...`0x${string}`[]],
+  };
+}
+
+function encodeContents(contents: ArchiveContents): Buffer {
+  return gzipSync(JSON.stringify(contents));
+}
+
+function decodeContents(payload: Buffer): ArchiveContents {
+  return JSON.parse(gunzipSync(payload).toString('utf8'));
+}
+
+// The part of a chunk's contents that falls inside [fromBlock, toBlock]
+function sliceContents(contents: ArchiveContents, fromBlock: bigint, toBlock: bigint): ArchiveContents {
+  const inRange = (bn: number) => bn >= Number(fromBlock) && bn <= Number(toBlock);
+  const logs = contents.logs.filter(l => inRange(l.blockNumber));
+  const txHashes = new Set(logs.map(l => l.transactionHash));
+  return {
+    logs,
+    blockTimestamps: Object.fromEntries(Object.entries(contents.blockTimestamps).filter(([bn]) => inRange(Number(bn)))),
+    txSenders: Object.fromEntries(Object.entries(contents.txSenders).filter(([hash]) => txHashes.has(hash))),
+    txGas: contents.txGas && Object.fromEntries(Object.entries(contents.txGas).filter(([hash]) => txHashes.has(hash))),
+  };
+}
+
+async function insertChunk(exec: DbExecutor, chain: string, fromBlock: bigint, toBlock: bigint, contents: ArchiveContents, archivedAt: number): Promise<void> {
+  await exec.insert(schema.rawLogChunks).values({
+    chain,
+    fromBlock: Number(fromBlock),
+    toBlock: Number(toBlock),
+    logCount: contents.logs.length,
+    payload: encodeContents(contents),
+    archivedAt,
+  });
+}
+
+/**
+ * Removes [fromBlock, toBlock] (open-ended when toBlock is null) from the
+ * archive. Chunks straddling a boundary are rewritten to keep their outside part.
+ */
+async function clipArchive(exec: DbExecutor, chain: string, fromBlock: bigint, toBlock: bigint | null): Promise<void> {
+  const overlapping = await exec.select()
+    .from(schema.rawLogChunks)
+    .where(and(
+      eq(schema.rawLogChunks.chain, chain),
+      gte(schema.rawLogChunks.toBlock, Number(fromBlock)),
+      toBlock === null ? undefined : lte(schema.rawLogChunks.fromBlock, Number(toBlock))
+    ));
+
+  for (const chunk of overlapping) {
+    await exec.delete(schema.rawLogChunks).where(eq(schema.rawLogChunks.id, chunk.id));
+
+    const chunkFrom = BigInt(chunk.fromBlock);
+    const chunkTo = BigInt(chunk.toBlock);
+    if (chunkFrom >= fromBlock && (toBlock === null || chunkTo <= toBlock)) continue;
+
+    const contents = decodeContents(chunk.payload);
+    if (chunkFrom < fromBlock) {
+      await insertChunk(exec, chain, chunkFrom, fromBlock - 1n, sliceContents(contents, chunkFrom, fromBlock - 1n), chunk.archivedAt);
+    }
+    if (toBlock !== null && chunkTo > toBlock) {
+      await insertChunk(exec, chain, toBlock + 1n, chunkTo, sliceContents(contents, toBlock + 1n, chunkTo), chunk.archivedAt);
+    }
+  }
+}
+
+// Stores a fetched range, replacing whatever the archive held for it
+export async function archiveRawLogs(chain: string, fromBlock: bigint, toBlock: bigint, batch: ArchivableBatch): Promise<void> {
+  const contents: ArchiveContents = {
+    logs: batch.logs.map(toArchivedLog).sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex),
+    blockTimestamps: Object.fromEntries([...batch.blockTimestamps].map(([bn, ts]) => [bn.toString(), ts])),
+    txSenders: {},
+    txGas: {},
+  };
+  for (const [hash, tx] of batch.withdrawalTxs) {
+    if (!tx) continue;
+    contents.txSenders[hash] = tx.from;
+    if (tx.gasUsed !== null && tx.effectiveGasPriceWei !== null) {
+      contents.txGas![hash] = { gasUsed: tx.gasUsed, effectiveGasPriceWei: tx.effectiveGasPriceWei };
+    }
+  }
+  const now = Math.floor(Date.now() / 1000);
+
+  await db.transaction(async (tx) => {
+    await clipArchive(tx, chain, fromBlock, toBlock);
+    await insertChunk(tx, chain, fromBlock, toBlock, contents, now);
+  });
+}
+
+// Reorg rollback: forget everything archived above the fork, inside the rollback transaction
+export async function dropArchiveAbove(exec: DbExecutor, chain: string, forkBlock: bigint): Promise<void> {
+  await clipArchive(exec, chain, forkBlock + 1n, null);
+}
+
+/**
+ * Yields the archived chunks overlapping [fromBlock, toBlock] in block order,
+ * decompressing one at a time so a whole chain's archive never sits in memory.
+ */
+export async function* readArchive(chain: string, fromBlock = 0n, toBlock: bigint | null = null): AsyncGenerator<ArchiveChunk> {
+  const ranges = await db.select({
+    id: schema.rawLogChunks.id,
+    fromBlock: schema.rawLogChunks.fromBlock,
+    toBlock: schema.rawLogChunks.toBlock,
+  })
+    .from(schema.rawLogChunks)
+    .where(and(
+      eq(schema.rawLogChunks.chain, chain),
+      gte(schema.rawLogChunks.toBlock, Number(fromBlock)),
+      toBlock === null ? undefined : lte(schema.rawLogChunks.fromBlock, Number(toBlock))
+    ))
+    .orderBy(asc(schema.rawLogChunks.fromBlock));
+
+  for (const range of ranges) {
+    const row = await db.select({ payload: schema.rawLogChunks.payload })
+      .from(schema.rawLogChunks)
+      .where(eq(schema.rawLogChunks.id, range.id))
+      .get();
+    if (!row) continue; // Rewritten by a concurrent indexer since the listing
+
+    yield { fromBlock: BigInt(range.fromBlock), toBlock: BigInt(range.toBlock), ...decodeContents(row.payload) };
+  }
+}
@@ -0,0 +1,142 @@
+import { db, schema } from '../db/client';
+import { and, eq, gte, lte, inArray, sql } from 'drizzle-orm';
+import { withRetry } from './rpc';
+
+// Columns compared to decide whether a re-decoded event changed
+const COMPARED_FIELDS = [
+  'blockNumber', 'blockTimestamp', 'contractName', 'eventName', 'eventType', 'tokenId', 'tokenSubId',
+  'rawAmountWei', 'amountNormalized', 'relayerAddress', 'fromAddress', 'toAddress', 'gasUsed', 'effectiveGasPriceWei', 'metadataJson',
+] as const;
+
+type ComparedField = typeof COMPARED_FIELDS[number];
+
+const UPSERT_CHUNK_SIZE = 100;
+
+export interface ReconcileTotals {
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+}
+
+export interface EventChange {
+  kind: 'added' | 'removed' | 'changed';
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  eventType: string;
+  fields: Array<{ field: ComparedField; before: unknown; after: unknown }>; // Only for "changed"
+}
+
+export interface ReconcileOptions {
+  reason: 'reindex' | 'redecode'; // Recorded on the dates marked dirty
+  dryRun?: boolean; // Compute the diff without writing anything
+}
+
+function eventKey(e: { txHash: string; logIndex: number }): string {
+  return `${e.txHash}:${e.logIndex}`;
+}
+
+function changedFields(stored: schema.Event, fresh: schema.NewEvent): EventChange['fields'] {
+  return COMPARED_FIELDS
+    .filter(field => (stored[field] ?? null) !== (fresh[field] ?? null))
+    .map(field => ({ field, before: stored[field] ?? null, after: fresh[field] ?? null }));
+}
+
+function toDate(blockTimestamp: number): string {
+  return new Date(blockTimestamp * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Makes `fresh` the stored events of [fromBlock, toBlock]: new events are
+ * inserted, differing ones updated (both as an upsert on chain + txHash + logIndex)
+ * and stored events missing from `fresh` are deleted. Dates touched by any of
+ * these are marked dirty for the analytics scripts.
+ */
+export async function reconcileEvents(
+  chain: string,
+  fromBlock: bigint,
+  toBlock: bigint,
+  fresh: schema.NewEvent[],
+  { reason, dryRun = false }: ReconcileOptions,
+): Promise<{ totals: ReconcileTotals; changes: EventChange[] }> {
+  const inRange = and(
+    eq(schema.events.chain, chain),
+    gte(schema.events.blockNumber, Number(fromBlock)),
+    lte(schema.events.blockNumber, Number(toBlock))
+  );
+  const stored = await db.select().from(schema.events).where(inRange);
+  const storedByKey = new Map(stored.map(e => [eventKey(e), e]));
+  const freshKeys = new Set(fresh.map(eventKey));
+
+  const changes: EventChange[] = [];
+  const upserts: schema.NewEvent[] = [];
+  for (const e of fresh) {
+    const existing = storedByKey.get(eventKey(e));
+    const fields = existing ? changedFields(existing, e) : [];
+    if (existing && fields.length === 0) continue;
+    upserts.push(e);
+    changes.push({
+      kind: existing ? 'changed' : 'added',
+      txHash: e.txHash,
+      logIndex: e.logIndex,
+      blockNumber: e.blockNumber,
+      eventType: e.eventType,
+      fields,
+    });
+  }
+  const removed = stored.filter(e => !freshKeys.has(eventKey(e)));
+  for (const e of removed) {
+    changes.push({ kind: 'removed', txHash: e.txHash, logIndex: e.logIndex, blockNumber: e.blockNumber, eventType: e.eventType, fields: [] });
+  }
+
+  const totals: ReconcileTotals = {
+    added: changes.filter(c => c.kind === 'added').length,
+    removed: removed.length,
+    changed: changes.filter(c => c.kind === 'changed').length,
+    unchanged: fresh.length - upserts.length,
+  };
+
+  if (dryRun || changes.length === 0) return { totals, changes };
+
+  const dates = new Set<string>();
+  for (const e of [...upserts, ...removed]) {
+    dates.add(toDate(e.blockTimestamp));
+  }
+  // A changed event may also have moved off its old date
+  for (const e of upserts) {
+    const existing = storedByKey.get(eventKey(e));
+    if (existing) dates.add(toDate(existing.blockTimestamp));
+  }
+
+  const removedIds = removed.map(e => e.id);
+  const now = Math.floor(Date.now() / 1000);
+  await withRetry(
+    () => db.transaction(async (tx) => {
+      for (let i = 0; i < upserts.length; i += UPSERT_CHUNK_SIZE) {
+        await tx.insert(schema.events)
+          .values(upserts.slice(i, i + UPSERT_CHUNK_SIZE))
+          .onConflictDoUpdate({
+            target: [schema.events.chain, schema.events.txHash, schema.events.logIndex],
+            set: Object.fromEntries(COMPARED_FIELDS.map(field => [
+              field, sql.raw(`excluded.${schema.events[field].name}`),
+            ])),
+          });
+      }
+      for (let i = 0; i < removedIds.length; i += UPSERT_CHUNK_SIZE) {
+        await tx.delete(schema.events).where(inArray(schema.events.id, removedIds.slice(i, i + UPSERT_CHUNK_SIZE)));
+      }
+      for (const date of dates) {
+        await tx.insert(schema.dirtyDates)
+          .values({ chain, date, reason, markedAt: now })
+          .onConflictDoUpdate({
+            target: [schema.dirtyDates.chain, schema.dirtyDates.date],
+            set: { reason, markedAt: now },
+          });
+      }
+    }),
+    `[${chain}] reconcile ${fromBlock}-${toBlock}`
+  );
+
+  return { totals, changes };
+}
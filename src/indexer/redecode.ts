@@ -0,0 +1,171 @@
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { getChainConfig, type ChainConfig } from './chains';
+import { buildEventRows, decodeLogs, type ContractLog, type EventRowSources } from './engine';
+import { readArchive, fromArchivedLog, type ArchiveChunk } from './rawLogArchive';
+import { reconcileEvents, type EventChange, type ReconcileTotals } from './reconcile';
+import { replaceQuarantinedRange } from './quarantine';
+import { findTokenId } from './tokenResolver';
+
+// Change lines printed to the console; --report always gets all of them
+const MAX_PRINTED_CHANGES = 100;
+
+interface RedecodeReport {
+  chain: string;
+  fromBlock: string;
+  toBlock: string | null;
+  dryRun: boolean;
+  chunks: number;
+  logs: number;
+  undecoded: number;
+  unresolvedTokens: string[];
+  totals: ReconcileTotals;
+  changes: EventChange[];
+}
+
+// Answers everything buildEventRows needs from the chunk and the local DB. Tokens
+// never resolved before get no id (and are reported) rather than an RPC lookup.
+function archiveRowSources(chain: ChainConfig, chunk: ArchiveChunk, unresolvedTokens: Set<string>): EventRowSources {
+  return {
+    blockTimestamps: async (blockNumbers) => new Map(blockNumbers.map(bn => {
+      const timestamp = chunk.blockTimestamps[bn.toString()];
+      if (timestamp === undefined) {
+        throw new Error(`[${chain.name}] Archive chunk ${chunk.fromBlock}-${chunk.toBlock} has no timestamp for block ${bn}`);
+      }
+      return [bn, timestamp];
+    })),
+    withdrawalTx: async (txHash) => {
+      const from = chunk.txSenders[txHash];
+      if (from === undefined) return null;
+      const gas = chunk.txGas?.[txHash];
+      return { from, gasUsed: gas?.gasUsed ?? null, effectiveGasPriceWei: gas?.effectiveGasPriceWei ?? null };
+    },
+    tokenIds: async (tokens) => {
+      const ids = new Map<string, number | null>();
+      for (const tokenAddress of tokens.keys()) {
+        const id = await findTokenId(chain, tokenAddress);
+        if (id === null) unresolvedTokens.add(tokenAddress);
+        ids.set(tokenAddress, id);
+      }
+      return ids;
+    },
+  };
+}
+
+function formatValue(value: unknown): string {
+  if (value === null) return 'null';
+  const text = String(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function formatChange(change: EventChange): string {
+  const symbol = { added: '+', removed: '-', changed: '~' }[change.kind];
+  const head = `${symbol} ${change.txHash}:${change.logIndex} block ${change.blockNumber} ${change.eventType}`;
+  if (change.kind !== 'changed') return head;
+  return `${head}\n${change.fields.map(f => `    ${f.field}: ${formatValue(f.before)} -> ${formatValue(f.after)}`).join('\n')}`;
+}
+
+/**
+ * Rebuilds the events of every archived range overlapping [fromBlock, toBlock]
+ * with the current decoders, without any RPC access. Blocks the archive does
+ * not cover (indexed before it existed) are left untouched.
+ */
+async function redecodeRange(chain: ChainConfig, fromBlock: bigint, toBlock: bigint | null, dryRun: boolean): Promise<RedecodeReport> {
+  const contractsByAddress = new Map(chain.contracts.map(c => [c.address.toLowerCase(), c]));
+  const unresolvedTokens = new Set<string>();
+  const report: RedecodeReport = {
+    chain: chain.name,
+    fromBlock: fromBlock.toString(),
+    toBlock: toBlock?.toString() ?? null,
+    dryRun,
+    chunks: 0,
+    logs: 0,
+    undecoded: 0,
+    unresolvedTokens: [],
+    totals: { added: 0, removed: 0, changed: 0, unchanged: 0 },
+    changes: [],
+  };
+
+  for await (const chunk of readArchive(chain.name, fromBlock, toBlock)) {
+    const start = chunk.fromBlock > fromBlock ? chunk.fromBlock : fromBlock;
+    const end = toBlock !== null && chunk.toBlock > toBlock ? toBlock : chunk.toBlock;
+
+    // Logs of contracts no longer configured have nothing to decode them
+    const logs: ContractLog[] = [];
+    for (const archived of chunk.logs) {
+      const contract = contractsByAddress.get(archived.address);
+      if (contract && archived.blockNumber >= Number(start) && archived.blockNumber <= Number(end)) {
+        logs.push({ contract, log: fromArchivedLog(archived) });
+      }
+    }
+
+    const { pending, undecoded } = decodeLogs(chain, logs);
+    const fresh = pending.length > 0
+      ? await buildEventRows(chain, pending, archiveRowSources(chain, chunk, unresolvedTokens))
+      : [];
+    const { totals, changes } = await reconcileEvents(chain.name, start, end, fresh, { reason: 'redecode', dryRun });
+    if (!dryRun) await replaceQuarantinedRange(chain.name, start, end, undecoded);
+
+    report.chunks++;
+    report.logs += logs.length;
+    report.undecoded += undecoded.length;
+    report.totals.added += totals.added;
+    report.totals.removed += totals.removed;
+    report.totals.changed += totals.changed;
+    report.totals.unchanged += totals.unchanged;
+    report.changes.push(...changes);
+  }
+
+  report.unresolvedTokens = [...unresolvedTokens];
+  return report;
+}
+
+// Usage: bun run src/indexer/redecode.ts --chain <chain> [--from <block>] [--to <block>] [--dry-run] [--report <file>]
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      chain: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      report: { type: 'string' },
+    },
+  });
+
+  if (!values.chain) {
+    throw new Error('Usage: redecode --chain <chain> [--from <block>] [--to <block>] [--dry-run] [--report <file>]');
+  }
+
+  const chain = getChainConfig(values.chain);
+  const fromBlock = values.from ? BigInt(values.from) : 0n;
+  const toBlock = values.to ? BigInt(values.to) : null;
+  const dryRun = values['dry-run'];
+  if (toBlock !== null && fromBlock > toBlock) {
+    throw new Error(`--from (${fromBlock}) must not be after --to (${toBlock})`);
+  }
+
+  console.log(`Re-decoding ${chain.label} from the raw log archive${dryRun ? ' (dry run)' : ''}...`);
+  const report = await redecodeRange(chain, fromBlock, toBlock, dryRun);
+
+  for (const change of report.changes.slice(0, MAX_PRINTED_CHANGES)) {
+    console.log(formatChange(change));
+  }
+  if (report.changes.length > MAX_PRINTED_CHANGES) {
+    console.log(`... ${report.changes.length - MAX_PRINTED_CHANGES} more changes${values.report ? '' : ', pass --report <file> for the full list'}`);
+  }
+  if (report.unresolvedTokens.length > 0) {
+    console.warn(`[${chain.name}] ${report.unresolvedTokens.length} tokens not in the tokens table were left without an id: ${report.unresolvedTokens.join(', ')}`);
+  }
+  if (values.report) {
+    writeFileSync(values.report, JSON.stringify(report, null, 2) + '\n');
+    console.log(`Report written to ${values.report}`);
+  }
+
+  const { added, removed, changed, unchanged } = report.totals;
+  console.log(`Re-decode ${dryRun ? 'dry run ' : ''}complete: ${report.chunks} chunks, ${report.logs} logs (${report.undecoded} undecoded), ${added} added, ${removed} removed, ${changed} changed, ${unchanged} unchanged`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,81 @@
+import { parseArgs } from 'node:util';
+import { db, schema } from '../db/client';
+import { CHAIN_NAMES, getChainConfig, type ChainConfig } from './chains';
+import { buildEventRows, type PendingEvent } from './engine';
+import { loadQuarantinedLogs, releaseQuarantinedLogs } from './quarantine';
+import { withRetry } from './rpc';
+
+const INSERT_CHUNK_SIZE = 100;
+
+// Runs the current decoders over a chain's quarantined logs and moves the ones
+// that now decode into events, marking their dates dirty for the analytics
+async function redecodeChain(chain: ChainConfig): Promise<void> {
+  const quarantined = await loadQuarantinedLogs(chain);
+  if (quarantined.length === 0) {
+    console.log(`[${chain.name}] Quarantine is empty`);
+    return;
+  }
+
+  const pending: PendingEvent[] = [];
+  const promotedIds: number[] = [];
+  const byTopic = new Map<string, { promoted: number; remaining: number }>();
+
+  for (const { id, contract, log } of quarantined) {
+    const topic0 = log.topics[0] ?? '(anonymous)';
+    const counts = byTopic.get(topic0) ?? { promoted: 0, remaining: 0 };
+    byTopic.set(topic0, counts);
+
+    const decoded = contract ? contract.decode(log) : [];
+    if (!contract || decoded.length === 0) {
+      counts.remaining++;
+      continue;
+    }
+    decoded.forEach((d, subIndex) => pending.push({ contract, log, decoded: d, subIndex }));
+    promotedIds.push(id);
+    counts.promoted++;
+  }
+
+  for (const [topic0, { promoted, remaining }] of byTopic) {
+    console.log(`[${chain.name}] ${topic0}: ${promoted} promoted, ${remaining} still undecodable`);
+  }
+  if (pending.length === 0) return;
+
+  const events = await buildEventRows(chain, pending);
+  const dates = new Set(events.map(e => new Date(e.blockTimestamp * 1000).toISOString().slice(0, 10)));
+  const now = Math.floor(Date.now() / 1000);
+
+  await withRetry(
+    () => db.transaction(async (tx) => {
+      for (let i = 0; i < events.length; i += INSERT_CHUNK_SIZE) {
+        await tx.insert(schema.events).values(events.slice(i, i + INSERT_CHUNK_SIZE)).onConflictDoNothing();
+      }
+      for (const date of dates) {
+        await tx.insert(schema.dirtyDates)
+          .values({ chain: chain.name, date, reason: 'redecode', markedAt: now })
+          .onConflictDoUpdate({
+            target: [schema.dirtyDates.chain, schema.dirtyDates.date],
+            set: { reason: 'redecode', markedAt: now },
+          });
+      }
+    }),
+    `[${chain.name}] insert ${events.length} promoted events`
+  );
+  await releaseQuarantinedLogs(promotedIds);
+
+  console.log(`[${chain.name}] Promoted ${promotedIds.length} logs into ${events.length} events, ${dates.size} dates marked dirty`);
+}
+
+// Usage: bun run src/indexer/redecodeQuarantine.ts [--chain <chain>]
+async function main() {
+  const { values } = parseArgs({ options: { chain: { type: 'string' } } });
+  const chainNames = values.chain ? [values.chain] : CHAIN_NAMES;
+
+  for (const name of chainNames) {
+    await redecodeChain(getChainConfig(name));
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
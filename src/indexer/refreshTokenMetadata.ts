@@ -0,0 +1,143 @@
+import { db, schema } from '../db/client';
+import { and, eq, isNull, isNotNull, lte, or, sql } from 'drizzle-orm';
+import { CHAINS, CHAIN_NAMES, type ChainConfig } from './chains';
+import { fetchTokenMetadata, describeFailures, normalizeAmount, TOKEN_REFRESH_STATUS_KEY, type MetadataField, type TokenRefreshSummary } from './tokenResolver';
+
+// An incomplete token is looked up again at most this often
+const RETRY_INTERVAL_SECONDS = 6 * 60 * 60;
+
+// Tokens looked up per chain and run, least recently checked first
+const MAX_TOKENS_PER_RUN = 500;
+
+function toDate(blockTimestamp: number): string {
+  return new Date(blockTimestamp * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Recomputes amountNormalized for every event of a token after its decimals
+ * were found (or corrected) and marks the affected dates for re-aggregation.
+ */
+async function renormalizeTokenEvents(chain: string, tokenId: number, decimals: number): Promise<{ events: number; dates: number }> {
+  const rows = await db.select({
+    id: schema.events.id,
+    rawAmountWei: schema.events.rawAmountWei,
+    blockTimestamp: schema.events.blockTimestamp,
+  })
+    .from(schema.events)
+    .where(and(eq(schema.events.tokenId, tokenId), isNotNull(schema.events.rawAmountWei)));
+
+  const dates = new Set(rows.map(r => toDate(r.blockTimestamp)));
+  const now = Math.floor(Date.now() / 1000);
+
+  await db.transaction(async (tx) => {
+    for (const row of rows) {
+      await tx.update(schema.events)
+        .set({ amountNormalized: normalizeAmount(row.rawAmountWei!, decimals) })
+        .where(eq(schema.events.id, row.id));
+    }
+    for (const date of dates) {
+      await tx.insert(schema.dirtyDates)
+        .values({ chain, date, reason: 'metadata', markedAt: now })
+        .onConflictDoUpdate({
+          target: [schema.dirtyDates.chain, schema.dirtyDates.date],
+          set: { reason: 'metadata', markedAt: now },
+        });
+    }
+  });
+
+  return { events: rows.length, dates: dates.size };
+}
+
+// Retries ERC-20s with missing symbol/decimals or a recorded lookup failure, plus
+// tokens never checked on chain (e.g. seeded from JSON with guessed decimals)
+async function refreshChain(chain: ChainConfig): Promise<TokenRefreshSummary> {
+  const now = Math.floor(Date.now() / 1000);
+  const summary: TokenRefreshSummary = {
+    ranAt: now, checked: 0, completed: 0, decimalsUpdated: 0, eventsRenormalized: 0, datesMarked: 0, stillIncomplete: 0,
+  };
+
+  const candidates = await db.select()
+    .from(schema.tokens)
+    .where(and(
+      eq(schema.tokens.chain, chain.name),
+      eq(schema.tokens.tokenStandard, 'erc20'),
+      or(
+        isNull(schema.tokens.metadataCheckedAt),
+        and(
+          or(isNull(schema.tokens.decimals), isNull(schema.tokens.symbol), isNotNull(schema.tokens.metadataError)),
+          lte(schema.tokens.metadataCheckedAt, now - RETRY_INTERVAL_SECONDS)
+        )
+      )
+    ))
+    .orderBy(sql`coalesce(${schema.tokens.metadataCheckedAt}, 0)`)
+    .limit(MAX_TOKENS_PER_RUN);
+
+  if (candidates.length === 0) return summary;
+
+  const fetched = await fetchTokenMetadata(chain, candidates.map(t => ({ address: t.address, standard: 'erc20' as const })));
+
+  for (const token of candidates) {
+    const metadata = fetched.get(token.address)!;
+
+    // A failed field keeps what we had; only fields still missing count as failures
+    const merged = {
+      symbol: metadata.symbol ?? token.symbol,
+      name: metadata.name ?? token.name,
+      decimals: metadata.decimals ?? token.decimals,
+    };
+    const failures = Object.fromEntries(
+      Object.entries(metadata.failures).filter(([field]) => merged[field as MetadataField] === null)
+    );
+    const error = describeFailures(failures);
+
+    await db.update(schema.tokens)
+      .set({ ...merged, metadataError: error, metadataCheckedAt: now })
+      .where(eq(schema.tokens.id, token.id));
+
+    summary.checked++;
+    if (error === null && merged.symbol !== null && merged.decimals !== null) {
+      summary.completed++;
+    } else {
+      summary.stillIncomplete++;
+    }
+
+    if (metadata.decimals !== null && metadata.decimals !== token.decimals) {
+      const { events, dates } = await renormalizeTokenEvents(chain.name, token.id, metadata.decimals);
+      summary.decimalsUpdated++;
+      summary.eventsRenormalized += events;
+      summary.datesMarked += dates;
+      console.log(`[${chain.name}] ${merged.symbol ?? token.address}: decimals ${token.decimals ?? 'unknown'} -> ${metadata.decimals}, ${events} events re-normalized`);
+    }
+  }
+
+  return summary;
+}
+
+// Run periodically by the scheduler (start-all.ts) before the analytics scripts aggregate amounts
+export async function refreshTokenMetadata() {
+  const summaries: Record<string, TokenRefreshSummary> = {};
+
+  for (const name of CHAIN_NAMES) {
+    const summary = await refreshChain(CHAINS[name]);
+    summaries[name] = summary;
+    if (summary.checked > 0) {
+      console.log(`[${name}] Token metadata: ${summary.checked} checked, ${summary.completed} complete, ${summary.stillIncomplete} still incomplete, ${summary.eventsRenormalized} events re-normalized, ${summary.datesMarked} dates marked dirty`);
+    }
+  }
+
+  const value = JSON.stringify(summaries);
+  await db.insert(schema.metadata)
+    .values({ key: TOKEN_REFRESH_STATUS_KEY, value })
+    .onConflictDoUpdate({
+      target: schema.metadata.key,
+      set: { value },
+    });
+}
+
+// Usage: bun run src/indexer/refreshTokenMetadata.ts
+if (import.meta.main) {
+  refreshTokenMetadata().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
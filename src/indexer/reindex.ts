@@ -0,0 +1,39 @@
+import { parseArgs } from 'node:util';
+import { getChainConfig } from './chains';
+import { reindexRange } from './reindexer';
+
+// Usage: bun run src/indexer/reindex.ts --chain <chain> --from <block> --to <block> [--workers N]
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      chain: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      workers: { type: 'string', default: '4' },
+    },
+  });
+
+  if (!values.chain || !values.from || !values.to) {
+    throw new Error('Usage: reindex --chain <chain> --from <block> --to <block> [--workers N]');
+  }
+
+  const chain = getChainConfig(values.chain);
+  const fromBlock = BigInt(values.from);
+  const toBlock = BigInt(values.to);
+  const workers = parseInt(values.workers);
+  if (fromBlock > toBlock) {
+    throw new Error(`--from (${fromBlock}) must not be after --to (${toBlock})`);
+  }
+  if (!(workers >= 1)) {
+    throw new Error(`--workers must be a positive integer, got ${values.workers}`);
+  }
+
+  console.log(`Re-indexing ${chain.label} blocks ${fromBlock}-${toBlock} with ${workers} workers...`);
+  const totals = await reindexRange(chain, fromBlock, toBlock, workers);
+  console.log(`Re-index complete: ${totals.added} added, ${totals.removed} removed, ${totals.changed} changed, ${totals.unchanged} unchanged`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,69 @@
+import { type ChainConfig } from './chains';
+import { fetchBatchEvents, getBatchSize } from './engine';
+import { isLogRangeError, sleep } from './rpc';
+import { replaceQuarantinedRange } from './quarantine';
+import { archiveRawLogs } from './rawLogArchive';
+import { reconcileEvents, type ReconcileTotals } from './reconcile';
+
+/**
+ * Re-fetches one window and reconciles it with what is stored (see reconcileEvents),
+ * refreshing the quarantine and the raw log archive for the window too.
+ */
+async function reindexWindow(chain: ChainConfig, fromBlock: bigint, toBlock: bigint): Promise<ReconcileTotals> {
+  const batch = await fetchBatchEvents(chain, fromBlock, toBlock);
+  await replaceQuarantinedRange(chain.name, fromBlock, toBlock, batch.undecoded);
+  await archiveRawLogs(chain.name, fromBlock, toBlock, batch);
+
+  const { totals } = await reconcileEvents(chain.name, fromBlock, toBlock, batch.events, { reason: 'reindex' });
+  return totals;
+}
+
+/**
+ * Re-indexes [fromBlock, toBlock] with `workers` windows in flight at once.
+ * Windows start at the chain's learned getLogs size and are split in half
+ * when the provider rejects them. The live cursor and block hashes are untouched.
+ */
+export async function reindexRange(chain: ChainConfig, fromBlock: bigint, toBlock: bigint, workers: number): Promise<ReconcileTotals> {
+  const windowSize = await getBatchSize(chain);
+  const queue: Array<[bigint, bigint]> = [];
+  for (let start = fromBlock; start <= toBlock; start += windowSize) {
+    const end = start + windowSize - 1n;
+    queue.push([start, end > toBlock ? toBlock : end]);
+  }
+
+  const totals: ReconcileTotals = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  let windowsDone = 0;
+  let inFlight = 0;
+
+  const worker = async (id: number) => {
+    // Keep polling while other workers are busy: a rejected window comes back as two halves
+    while (queue.length > 0 || inFlight > 0) {
+      const next = queue.shift();
+      if (!next) {
+        await sleep(100);
+        continue;
+      }
+      const [start, end] = next;
+      inFlight++;
+      try {
+        const result = await reindexWindow(chain, start, end);
+        totals.added += result.added;
+        totals.removed += result.removed;
+        totals.changed += result.changed;
+        totals.unchanged += result.unchanged;
+        windowsDone++;
+        console.log(`[${chain.name}] worker ${id}: ${start}-${end} +${result.added} -${result.removed} ~${result.changed} (${windowsDone} windows done, ${queue.length} queued)`);
+      } catch (err) {
+        if (!isLogRangeError(err) || start === end) throw err;
+        const mid = start + (end - start) / 2n;
+        console.warn(`[${chain.name}] worker ${id}: ${start}-${end} too large, splitting at ${mid}`);
+        queue.push([start, mid], [mid + 1n, end]);
+      } finally {
+        inFlight--;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: workers }, (_, i) => worker(i + 1)));
+  return totals;
+}
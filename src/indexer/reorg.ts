@@ -0,0 +1,137 @@
+import { db, schema } from '../db/client';
+import { eq, and, gt, lt, desc, sql } from 'drizzle-orm';
+import { dropArchiveAbove } from './rawLogArchive';
+
+// Number of most recent stored block hashes re-checked against the canonical chain
+export const REORG_CHECK_DEPTH = 64;
+// Number of block hashes kept per chain (older ones can no longer be reorged)
+const HASH_RETENTION = 512;
+
+// Fetches the canonical block hash at a height (callers wrap it with their own retry logic)
+export type GetBlockHash = (blockNumber: bigint) => Promise<string>;
+
+export async function recordBlockHashes(chain: string, hashes: Map<bigint, string>): Promise<void> {
+  if (hashes.size === 0) return;
+
+  await db.transaction(async (tx) => {
+    for (const [blockNumber, blockHash] of hashes) {
+      await tx.insert(schema.blockHashes)
+        .values({ chain, blockNumber: Number(blockNumber), blockHash })
+        .onConflictDoUpdate({
+          target: [schema.blockHashes.chain, schema.blockHashes.blockNumber],
+          set: { blockHash },
+        });
+    }
+  });
+
+  // Prune hashes beyond the retention window
+  const cutoff = await db.select({ blockNumber: schema.blockHashes.blockNumber })
+    .from(schema.blockHashes)
+    .where(eq(schema.blockHashes.chain, chain))
+    .orderBy(desc(schema.blockHashes.blockNumber))
+    .limit(1)
+    .offset(HASH_RETENTION)
+    .get();
+
+  if (cutoff) {
+    await db.delete(schema.blockHashes)
+      .where(and(eq(schema.blockHashes.chain, chain), lt(schema.blockHashes.blockNumber, cutoff.blockNumber)));
+  }
+}
+
+/**
+ * Compares the most recent stored block hashes with the canonical chain.
+ * Returns null when the newest stored hash still matches, otherwise the
+ * highest block whose stored hash is still canonical (the fork point).
+ */
+export async function detectReorg(chain: string, getBlockHash: GetBlockHash): Promise<bigint | null> {
+  const stored = await db.select()
+    .from(schema.blockHashes)
+    .where(eq(schema.blockHashes.chain, chain))
+    .orderBy(desc(schema.blockHashes.blockNumber))
+    .limit(REORG_CHECK_DEPTH);
+
+  if (stored.length === 0) return null;
+
+  const latest = stored[0];
+  if ((await getBlockHash(BigInt(latest.blockNumber))).toLowerCase() === latest.blockHash.toLowerCase()) {
+    return null;
+  }
+
+  for (const row of stored.slice(1)) {
+    const canonical = await getBlockHash(BigInt(row.blockNumber));
+    if (canonical.toLowerCase() === row.blockHash.toLowerCase()) {
+      return BigInt(row.blockNumber);
+    }
+  }
+
+  // No stored hash matched - roll back below the oldest one we checked
+  return BigInt(stored[stored.length - 1].blockNumber) - 1n;
+}
+
+/**
+ * Removes everything indexed above forkBlock: events, quarantined and archived
+ * logs, stored hashes and timestamps, and the indexer cursor. Dates that lost
+ * events are marked dirty so the analytics scripts recompute them, and the
+ * reorg is logged for /status.
+ */
+export async function rollbackToBlock(
+  chain: string,
+  cursorKey: string,
+  forkBlock: bigint,
+  lastIndexedBlock: bigint,
+): Promise<{ eventsRemoved: number; datesMarked: number }> {
+  const fork = Number(forkBlock);
+  const now = Math.floor(Date.now() / 1000);
+
+  return db.transaction(async (tx) => {
+    const affectedDates = await tx.selectDistinct({
+      date: sql<string>`date(${schema.events.blockTimestamp}, 'unixepoch')`,
+    })
+      .from(schema.events)
+      .where(and(eq(schema.events.chain, chain), gt(schema.events.blockNumber, fork)));
+
+    const removed = await tx.delete(schema.events)
+      .where(and(eq(schema.events.chain, chain), gt(schema.events.blockNumber, fork)))
+      .returning({ id: schema.events.id });
+
+    await tx.delete(schema.blockHashes)
+      .where(and(eq(schema.blockHashes.chain, chain), gt(schema.blockHashes.blockNumber, fork)));
+
+    await tx.delete(schema.blockTimestamps)
+      .where(and(eq(schema.blockTimestamps.chain, chain), gt(schema.blockTimestamps.blockNumber, fork)));
+
+    await tx.delete(schema.undecodedLogs)
+      .where(and(eq(schema.undecodedLogs.chain, chain), gt(schema.undecodedLogs.blockNumber, fork)));
+
+    await dropArchiveAbove(tx, chain, forkBlock);
+
+    if (lastIndexedBlock > forkBlock) {
+      await tx.insert(schema.metadata)
+        .values({ key: cursorKey, value: forkBlock.toString() })
+        .onConflictDoUpdate({
+          target: schema.metadata.key,
+          set: { value: forkBlock.toString() },
+        });
+    }
+
+    for (const { date } of affectedDates) {
+      await tx.insert(schema.dirtyDates)
+        .values({ chain, date, reason: 'reorg', markedAt: now })
+        .onConflictDoUpdate({
+          target: [schema.dirtyDates.chain, schema.dirtyDates.date],
+          set: { reason: 'reorg', markedAt: now },
+        });
+    }
+
+    await tx.insert(schema.reorgs).values({
+      chain,
+      detectedAt: now,
+      forkBlock: fork,
+      depth: Number(lastIndexedBlock - forkBlock),
+      eventsRemoved: removed.length,
+    });
+
+    return { eventsRemoved: removed.length, datesMarked: affectedDates.length };
+  });
+}
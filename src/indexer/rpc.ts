@@ -0,0 +1,177 @@
+import { createPublicClient, custom, type PublicClient } from 'viem';
+import { and, eq, gte } from 'drizzle-orm';
+import { db, schema } from '../db/client';
+import { type ChainConfig } from './chains';
+import { RpcPool, JsonRpcResponseError, type RpcCall } from './rpcPool';
+import { RpcFixtureStore, FixtureMissError, getFixtureMode } from './rpcFixtures';
+import { rpcRequestDuration, rpcErrors } from '../metrics';
+
+const MAX_RETRIES = 5;
+const RETRY_DELAY_MS = 5000;
+const RATE_LIMIT_DELAY_MS = 30000; // 30 seconds for rate limit errors
+const SQLITE_BUSY_DELAY_MS = 10000;
+
+// Wording providers use when a getLogs range holds too many logs or spans too many blocks
+const LOG_RANGE_ERROR_PATTERN = /more than [\d,]+ results|too many (results|logs)|response size|block range|range (is )?too (large|wide)|exceeds? (the )?max(imum)? (block )?range|limited to a [\d,]+ (block )?range/i;
+const LIMIT_EXCEEDED_CODE = -32005;
+
+// True when the request should be retried over a smaller block range rather than as-is
+export function isLogRangeError(err: unknown): boolean {
+  for (let e = err; e instanceof Error; e = e.cause) {
+    // Infura also uses -32005 for request rate limits
+    if ((e as { code?: unknown }).code === LIMIT_EXCEEDED_CODE && !/rate limit/i.test(e.message)) return true;
+    if (LOG_RANGE_ERROR_PATTERN.test(e.message)) return true;
+  }
+  return false;
+}
+
+export async function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export async function withRetry<T>(fn: () => Promise<T>, context: string): Promise<T> {
+  let lastError: Error | undefined;
+  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      lastError = err instanceof Error ? err : new Error(String(err));
+      // Same range would fail the same way; the caller has to shrink it
+      if (isLogRangeError(lastError)) throw lastError;
+      // A replayed fixture will not grow the missing response on a second try
+      if (lastError instanceof FixtureMissError) throw lastError;
+
+      const errorMsg = lastError.message.toLowerCase();
+      const isRateLimit = errorMsg.includes('429') || errorMsg.includes('rate limit') || errorMsg.includes('too many requests');
+      const isSqliteBusy = errorMsg.includes('sqlite_busy') || errorMsg.includes('database is locked');
+
+      console.warn(`${context} failed (attempt ${attempt}/${MAX_RETRIES}): ${lastError.message}`);
+
+      if (attempt < MAX_RETRIES) {
+        // Use longer delay for rate limit errors and SQLite busy errors
+        let delay = RETRY_DELAY_MS * attempt;
+        if (isRateLimit) {
+          delay = RATE_LIMIT_DELAY_MS * attempt;
+        } else if (isSqliteBusy) {
+          delay = SQLITE_BUSY_DELAY_MS * attempt;
+        }
+        console.log(`  Waiting ${delay}ms before retry...`);
+        await sleep(delay);
+      }
+    }
+  }
+  throw lastError;
+}
+
+// Times a request that went to the network (not a replayed fixture) for /metrics
+async function measured<T>(chain: ChainConfig, method: string, batch: boolean, send: () => Promise<T>): Promise<T> {
+  const labels = { chain: chain.name, method, batch: String(batch) };
+  const startedAt = performance.now();
+  try {
+    const result = await send();
+    rpcRequestDuration.observe(labels, (performance.now() - startedAt) / 1000);
+    return result;
+  } catch (err) {
+    // A node error is still an answer; anything else means no endpoint served the request
+    if (err instanceof JsonRpcResponseError) {
+      rpcRequestDuration.observe(labels, (performance.now() - startedAt) / 1000);
+    }
+    rpcErrors.inc({ ...labels, kind: err instanceof JsonRpcResponseError ? 'node' : 'endpoints' });
+    throw err;
+  }
+}
+
+// One pool and client per chain, shared by the indexer engine and the token resolver
+const pools = new Map<string, RpcPool>();
+const clients = new Map<string, PublicClient>();
+const fixtureStores = new Map<string, RpcFixtureStore | null>();
+
+// Non-null when RPC_FIXTURES is set: every call is recorded to or replayed from fixtures
+function getFixtureStore(chain: ChainConfig): RpcFixtureStore | null {
+  if (!fixtureStores.has(chain.name)) {
+    const mode = getFixtureMode();
+    fixtureStores.set(chain.name, mode ? new RpcFixtureStore(chain.name, mode) : null);
+  }
+  return fixtureStores.get(chain.name)!;
+}
+
+export function getRpcPool(chain: ChainConfig): RpcPool {
+  let pool = pools.get(chain.name);
+  if (!pool) {
+    pool = new RpcPool(chain.rpcUrls, parseInt(process.env.RPC_TIMEOUT_MS || '30000'));
+    pools.set(chain.name, pool);
+  }
+  return pool;
+}
+
+export function getClient(chain: ChainConfig): PublicClient {
+  let client = clients.get(chain.name);
+  if (!client) {
+    const pool = getRpcPool(chain);
+    const fixtures = getFixtureStore(chain);
+    client = createPublicClient({
+      chain: chain.viemChain,
+      // The pool already rotates endpoints on failure; withRetry handles the rest
+      transport: custom({
+        request: ({ method, params }) => {
+          const send = () => measured(chain, method, false, () => pool.request(method, params));
+          return fixtures ? fixtures.request(method, params ?? [], send) : send();
+        },
+      }, { retryCount: 0 }),
+    }) as PublicClient;
+    clients.set(chain.name, client);
+  }
+  return client;
+}
+
+// JSON-RPC batch through the pool, honouring RPC_FIXTURES like getClient() does
+export async function requestBatch(chain: ChainConfig, calls: RpcCall[]): Promise<unknown[]> {
+  const fixtures = getFixtureStore(chain);
+  const pool = getRpcPool(chain);
+  const methods = new Set(calls.map(c => c.method));
+  const send = () => measured(chain, methods.size === 1 ? calls[0].method : 'mixed', true, () => pool.requestBatch(calls));
+  return fixtures ? fixtures.requestBatch(calls, send) : send();
+}
+
+// Replayed runs have no endpoints to compare
+export async function checkRpcConsistency(chain: ChainConfig, blockNumber: bigint): Promise<void> {
+  if (getFixtureMode() === 'replay') return;
+  await getRpcPool(chain).checkConsistency(blockNumber);
+}
+
+const HEALTH_WRITE_INTERVAL_MS = 15_000;
+const lastHealthWrite = new Map<string, number>();
+
+// Snapshots endpoint health into rpc_endpoints so the web server (a separate process) can show it in /status
+export async function saveRpcHealth(chain: ChainConfig, force = false): Promise<void> {
+  if (getFixtureMode() === 'replay') return;
+  const now = Date.now();
+  if (!force && now - (lastHealthWrite.get(chain.name) ?? 0) < HEALTH_WRITE_INTERVAL_MS) return;
+  lastHealthWrite.set(chain.name, now);
+
+  const updatedAt = Math.floor(now / 1000);
+  for (const e of getRpcPool(chain).getHealth()) {
+    const values = {
+      url: e.url,
+      latencyMs: e.latencyMs,
+      errorRate: e.errorRate,
+      requestCount: e.requests,
+      errorCount: e.errors,
+      rateLimitCount: e.rateLimited,
+      timeoutCount: e.timeouts,
+      coolingDownUntil: e.coolingDownUntil,
+      consistent: e.consistent,
+      lastError: e.lastError,
+      updatedAt,
+    };
+    await db.insert(schema.rpcEndpoints)
+      .values({ chain: chain.name, endpointIndex: e.index, ...values })
+      .onConflictDoUpdate({ target: [schema.rpcEndpoints.chain, schema.rpcEndpoints.endpointIndex], set: values });
+  }
+
+  // Endpoints removed from the env var since the last run
+  await db.delete(schema.rpcEndpoints).where(and(
+    eq(schema.rpcEndpoints.chain, chain.name),
+    gte(schema.rpcEndpoints.endpointIndex, chain.rpcUrls.length)
+  ));
+}
@@ -0,0 +1,157 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { type RpcLog } from 'viem';
+import { JsonRpcResponseError, type RpcCall } from './rpcPool';
+
+// RPC_FIXTURES=record saves the responses of the calls below to one JSON file
+// per chain; RPC_FIXTURES=replay serves them back without touching the network.
+// eth_blockNumber is included so a replayed indexer stops at the recorded head.
+const RECORDED_METHODS = new Set([
+  'eth_blockNumber',
+  'eth_getLogs',
+  'eth_getBlockByNumber',
+  'eth_getTransactionReceipt',
+  'eth_call',
+]);
+
+// A recording is written out after this many new entries, and once more when the process ends
+const FLUSH_EVERY_ENTRIES = 1000;
+
+const EXIT_SIGNALS = { SIGINT: 130, SIGTERM: 143 } as const;
+
+export type FixtureMode = 'record' | 'replay';
+
+type FixtureEntry =
+  | { result: unknown }
+  | { error: { code: number; message: string; data?: unknown } };
+
+export class FixtureMissError extends Error {
+  constructor(chain: string, key: string) {
+    super(`[${chain}] No recorded response for ${key}; record it with RPC_FIXTURES=record`);
+    this.name = 'FixtureMissError';
+  }
+}
+
+export function getFixtureMode(): FixtureMode | null {
+  const mode = process.env.RPC_FIXTURES;
+  if (!mode) return null;
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`RPC_FIXTURES must be "record" or "replay", got "${mode}"`);
+  }
+  return mode;
+}
+
+export function getFixturesDir(): string {
+  return process.env.RPC_FIXTURES_DIR || 'fixtures/rpc';
+}
+
+// JSON with sorted object keys, so equal params always produce the same key
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(typeof value === 'string' ? value.toLowerCase() : value);
+}
+
+export function fixtureKey(method: string, params: unknown[]): string {
+  return `${method} ${stableStringify(params)}`;
+}
+
+// Every log returned by a recorded eth_getLogs call, for building decoder fixtures
+export function loadRecordedLogs(chain: string, dir = getFixturesDir()): RpcLog[] {
+  const file = join(dir, `${chain}.json`);
+  if (!existsSync(file)) return [];
+
+  const entries: Record<string, FixtureEntry> = JSON.parse(readFileSync(file, 'utf8'));
+  return Object.entries(entries)
+    .filter(([key, entry]) => key.startsWith('eth_getLogs ') && 'result' in entry && Array.isArray(entry.result))
+    .flatMap(([, entry]) => (entry as { result: RpcLog[] }).result);
+}
+
+export class RpcFixtureStore {
+  private file: string;
+  private entries: Record<string, FixtureEntry>;
+  private unsaved = 0;
+
+  constructor(private chain: string, private mode: FixtureMode, dir = getFixturesDir()) {
+    this.file = join(dir, `${chain}.json`);
+    this.entries = existsSync(this.file) ? JSON.parse(readFileSync(this.file, 'utf8')) : {};
+
+    if (mode === 'record') {
+      // 'exit' handlers must be synchronous, which flush() is; signals skip 'exit' unless handled
+      process.once('exit', () => this.flush());
+      for (const [signal, code] of Object.entries(EXIT_SIGNALS)) {
+        process.once(signal, () => process.exit(code));
+      }
+    }
+  }
+
+  // Serves a call from the fixture (replay) or from `upstream`, saving what it returns (record)
+  async request(method: string, params: unknown[], upstream: () => Promise<unknown>): Promise<unknown> {
+    if (!RECORDED_METHODS.has(method)) {
+      if (this.mode === 'replay') throw new FixtureMissError(this.chain, method);
+      return upstream();
+    }
+
+    const key = fixtureKey(method, params);
+    if (this.mode === 'replay') {
+      const entry = this.entries[key];
+      if (!entry) throw new FixtureMissError(this.chain, key);
+      return this.unwrap(entry);
+    }
+
+    try {
+      const result = await upstream();
+      this.save(key, { result });
+      return result;
+    } catch (err) {
+      // Node-level errors (too many results, reverts) are part of the recording; transport failures are not
+      if (err instanceof JsonRpcResponseError) {
+        this.save(key, { error: { code: err.code, message: err.message, data: err.data } });
+      }
+      throw err;
+    }
+  }
+
+  // Batch counterpart of request(); entries the node rejected come back as null
+  async requestBatch(calls: RpcCall[], upstream: () => Promise<unknown[]>): Promise<unknown[]> {
+    if (this.mode === 'replay') {
+      return calls.map(({ method, params }) => {
+        const entry = this.entries[fixtureKey(method, params)];
+        if (!entry) throw new FixtureMissError(this.chain, fixtureKey(method, params));
+        return 'result' in entry ? entry.result : null;
+      });
+    }
+
+    const results = await upstream();
+    results.forEach((result, i) => {
+      if (result !== null) this.save(fixtureKey(calls[i].method, calls[i].params), { result });
+    });
+    return results;
+  }
+
+  private unwrap(entry: FixtureEntry): unknown {
+    if ('error' in entry) {
+      throw new JsonRpcResponseError(entry.error.code, entry.error.message, entry.error.data);
+    }
+    return entry.result;
+  }
+
+  // Rewrites the file with sorted keys, so fixture diffs stay readable
+  flush(): void {
+    if (this.unsaved === 0) return;
+    const sorted = Object.fromEntries(Object.entries(this.entries).sort(([a], [b]) => a.localeCompare(b)));
+    mkdirSync(dirname(this.file), { recursive: true });
+    writeFileSync(this.file, JSON.stringify(sorted, null, 1) + '\n');
+    this.unsaved = 0;
+  }
+
+  private save(key: string, entry: FixtureEntry): void {
+    this.entries[key] = entry;
+    if (++this.unsaved >= FLUSH_EVERY_ENTRIES) this.flush();
+  }
+}
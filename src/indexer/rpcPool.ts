@@ -0,0 +1,295 @@
+// Pool of JSON-RPC endpoints for one chain. Every request goes to the
+// healthiest endpoint; rate limits, timeouts and transport failures put that
+// endpoint on cooldown and the request moves on to the next one. Errors the
+// node returns for the request itself (bad params, too many results, reverts)
+// are passed straight through, since another endpoint would say the same.
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const LATENCY_SMOOTHING = 0.2; // EWMA weight of the newest sample
+const ERROR_SMOOTHING = 0.1;
+const RATE_LIMIT_COOLDOWN_MS = 30_000; // Doubled per consecutive 429, capped below
+const FAILURE_COOLDOWN_MS = 10_000;
+const MAX_COOLDOWN_MS = 5 * 60_000;
+const INCONSISTENT_COOLDOWN_MS = 10 * 60_000;
+
+export type RpcFailureKind = 'rate_limit' | 'timeout' | 'http' | 'network';
+
+// Error returned in a JSON-RPC response body. `code` lets viem map it to its typed RPC errors.
+export class JsonRpcResponseError extends Error {
+  constructor(public code: number, message: string, public data?: unknown) {
+    super(message);
+    this.name = 'JsonRpcResponseError';
+  }
+}
+
+// The endpoint itself failed; the request may succeed elsewhere
+class EndpointError extends Error {
+  constructor(public kind: RpcFailureKind, message: string) {
+    super(message);
+    this.name = 'EndpointError';
+  }
+}
+
+export interface EndpointHealth {
+  index: number;
+  url: string; // Redacted - API keys in paths/queries are never exposed
+  latencyMs: number | null; // Smoothed
+  errorRate: number; // Smoothed, 0-1
+  requests: number;
+  errors: number;
+  rateLimited: number;
+  timeouts: number;
+  consecutiveErrors: number;
+  coolingDownUntil: number | null; // Unix ms
+  consistent: boolean | null; // null until the first consistency check
+  lastError: string | null;
+}
+
+export interface RpcCall {
+  method: string;
+  params: unknown[];
+}
+
+interface JsonRpcResponse {
+  id?: number | string;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+interface Endpoint extends EndpointHealth {
+  rawUrl: string;
+}
+
+
+// Keeps scheme and host, hides anything that may carry a key
+export function redactRpcUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const hidden = parsed.pathname.length > 1 || parsed.search ? '/…' : '';
+    return `${parsed.protocol}//${parsed.host}${hidden}`;
+  } catch {
+    return 'invalid-url';
+  }
+}
+
+function isRateLimitMessage(message: string): boolean {
+  const msg = message.toLowerCase();
+  return msg.includes('rate limit') || msg.includes('too many requests') || msg.includes('429');
+}
+
+export class RpcPool {
+  private endpoints: Endpoint[];
+  private timeoutMs: number;
+  private nextId = 1;
+
+  constructor(urls: string[], timeoutMs = DEFAULT_TIMEOUT_MS) {
+    if (urls.length === 0) {
+      throw new Error('RpcPool needs at least one RPC URL');
+    }
+    this.endpoints = urls.map((rawUrl, index) => ({
+      index,
+      rawUrl,
+      url: redactRpcUrl(rawUrl),
+      latencyMs: null,
+      errorRate: 0,
+      requests: 0,
+      errors: 0,
+      rateLimited: 0,
+      timeouts: 0,
+      consecutiveErrors: 0,
+      coolingDownUntil: null,
+      consistent: null,
+      lastError: null,
+    }));
+    this.timeoutMs = timeoutMs;
+  }
+
+  // EIP-1193 style entry point, used as a viem `custom` transport
+  async request(method: string, params: unknown[] = []): Promise<unknown> {
+    let lastError: Error | undefined;
+
+    for (const endpoint of this.rankEndpoints()) {
+      try {
+        return await this.send(endpoint, method, params);
+      } catch (err) {
+        if (!(err instanceof EndpointError)) throw err;
+        lastError = err;
+        console.warn(`[rpc] ${endpoint.url} ${err.kind} on ${method}: ${err.message}`);
+      }
+    }
+
+    throw lastError ?? new Error(`[rpc] No endpoint could serve ${method}`);
+  }
+
+  // Sends the calls as one JSON-RPC batch. Calls the node answered with an
+  // error come back as null so the caller can fall back to single requests.
+  async requestBatch(calls: RpcCall[]): Promise<unknown[]> {
+    if (calls.length === 0) return [];
+    let lastError: Error | undefined;
+
+    for (const endpoint of this.rankEndpoints()) {
+      try {
+        return await this.sendBatch(endpoint, calls);
+      } catch (err) {
+        if (!(err instanceof EndpointError)) throw err;
+        lastError = err;
+        console.warn(`[rpc] ${endpoint.url} ${err.kind} on batch of ${calls.length}: ${err.message}`);
+      }
+    }
+
+    throw lastError ?? new Error(`[rpc] No endpoint could serve a batch of ${calls.length}`);
+  }
+
+  // Compares the hash of an already-confirmed block across the endpoints not on
+  // cooldown. Those disagreeing with the majority are marked inconsistent and benched.
+  async checkConsistency(blockNumber: bigint): Promise<void> {
+    if (this.endpoints.length < 2) return;
+
+    const tag = `0x${blockNumber.toString(16)}`;
+    const now = Date.now();
+    const hashes = await Promise.all(this.endpoints.map(async endpoint => {
+      if (endpoint.coolingDownUntil && endpoint.coolingDownUntil > now) return null;
+      try {
+        const block = await this.send(endpoint, 'eth_getBlockByNumber', [tag, false]) as { hash?: string } | null;
+        return block?.hash?.toLowerCase() ?? null;
+      } catch {
+        return null; // Failures are already recorded by send()
+      }
+    }));
+
+    const votes = new Map<string, number>();
+    for (const hash of hashes) {
+      if (hash) votes.set(hash, (votes.get(hash) ?? 0) + 1);
+    }
+    if (votes.size === 0) return;
+    const [majority] = [...votes.entries()].sort((a, b) => b[1] - a[1])[0];
+
+    this.endpoints.forEach((endpoint, i) => {
+      const hash = hashes[i];
+      if (hash === null) return;
+      endpoint.consistent = hash === majority;
+      if (!endpoint.consistent) {
+        endpoint.coolingDownUntil = Date.now() + INCONSISTENT_COOLDOWN_MS;
+        endpoint.lastError = `block ${blockNumber} hash ${hash} disagrees with majority ${majority}`;
+        console.warn(`[rpc] ${endpoint.url} returned a different hash for block ${blockNumber}; benched`);
+      }
+    });
+  }
+
+  getHealth(): EndpointHealth[] {
+    return this.endpoints.map(({ rawUrl: _rawUrl, ...health }) => ({ ...health }));
+  }
+
+  // Healthy endpoints by score (smoothed latency, inflated by error rate), then benched ones by expiry
+  private rankEndpoints(): Endpoint[] {
+    const now = Date.now();
+    const score = (e: Endpoint) => (e.latencyMs ?? 0) * (1 + 4 * e.errorRate);
+    const available = this.endpoints
+      .filter(e => !e.coolingDownUntil || e.coolingDownUntil <= now)
+      .sort((a, b) => score(a) - score(b));
+    const benched = this.endpoints
+      .filter(e => e.coolingDownUntil && e.coolingDownUntil > now)
+      .sort((a, b) => a.coolingDownUntil! - b.coolingDownUntil!);
+    return [...available, ...benched];
+  }
+
+  private async send(endpoint: Endpoint, method: string, params: unknown[]): Promise<unknown> {
+    const startedAt = performance.now();
+    const payload = await this.post(endpoint, { jsonrpc: '2.0', id: this.nextId++, method, params }) as JsonRpcResponse;
+
+    if (payload.error) {
+      // Providers often report throttling as a JSON-RPC error rather than an HTTP 429
+      if (isRateLimitMessage(payload.error.message)) {
+        throw this.recordFailure(endpoint, 'rate_limit', payload.error.message);
+      }
+      this.recordSuccess(endpoint, performance.now() - startedAt);
+      throw new JsonRpcResponseError(payload.error.code, payload.error.message, payload.error.data);
+    }
+
+    this.recordSuccess(endpoint, performance.now() - startedAt);
+    return payload.result;
+  }
+
+  private async sendBatch(endpoint: Endpoint, calls: RpcCall[]): Promise<unknown[]> {
+    const startedAt = performance.now();
+    const firstId = this.nextId;
+    this.nextId += calls.length;
+    const payload = await this.post(endpoint, calls.map((call, i) => ({
+      jsonrpc: '2.0', id: firstId + i, method: call.method, params: call.params,
+    })));
+
+    // Endpoints without batch support answer with a single error object
+    if (!Array.isArray(payload)) {
+      const message = (payload as JsonRpcResponse)?.error?.message ?? 'non-array response';
+      throw this.recordFailure(endpoint, isRateLimitMessage(message) ? 'rate_limit' : 'http', `Batch rejected: ${message}`);
+    }
+
+    this.recordSuccess(endpoint, performance.now() - startedAt);
+    const results: unknown[] = calls.map(() => null);
+    for (const item of payload as JsonRpcResponse[]) {
+      const i = Number(item.id) - firstId;
+      if (i >= 0 && i < calls.length && !item.error) results[i] = item.result ?? null;
+    }
+    return results;
+  }
+
+  // Network, timeout and HTTP-level failures are charged to the endpoint
+  private async post(endpoint: Endpoint, body: unknown): Promise<unknown> {
+    endpoint.requests++;
+
+    let res: Response;
+    try {
+      res = await fetch(endpoint.rawUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (err) {
+      const isTimeout = err instanceof Error && (err.name === 'TimeoutError' || err.name === 'AbortError');
+      throw this.recordFailure(endpoint, isTimeout ? 'timeout' : 'network', err instanceof Error ? err.message : String(err));
+    }
+
+    if (res.status === 429) {
+      throw this.recordFailure(endpoint, 'rate_limit', 'HTTP 429');
+    }
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      throw this.recordFailure(endpoint, isRateLimitMessage(text) ? 'rate_limit' : 'http', `HTTP ${res.status} ${text.slice(0, 200)}`);
+    }
+
+    try {
+      return await res.json();
+    } catch (err) {
+      throw this.recordFailure(endpoint, 'http', `Invalid JSON response: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  private recordSuccess(endpoint: Endpoint, latencyMs: number): void {
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : endpoint.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+    endpoint.errorRate *= 1 - ERROR_SMOOTHING;
+    endpoint.consecutiveErrors = 0;
+  }
+
+  private recordFailure(endpoint: Endpoint, kind: RpcFailureKind, message: string): EndpointError {
+    endpoint.errors++;
+    endpoint.consecutiveErrors++;
+    endpoint.errorRate = endpoint.errorRate * (1 - ERROR_SMOOTHING) + ERROR_SMOOTHING;
+    // Transport errors can echo the request URL, which may embed an API key
+    message = message.split(endpoint.rawUrl).join(endpoint.url);
+    endpoint.lastError = `${kind}: ${message}`;
+
+    let cooldown = FAILURE_COOLDOWN_MS;
+    if (kind === 'rate_limit') {
+      endpoint.rateLimited++;
+      cooldown = RATE_LIMIT_COOLDOWN_MS * 2 ** (endpoint.consecutiveErrors - 1);
+    } else if (kind === 'timeout') {
+      endpoint.timeouts++;
+    }
+    endpoint.coolingDownUntil = Date.now() + Math.min(cooldown, MAX_COOLDOWN_MS);
+
+    return new EndpointError(kind, message);
+  }
+}
@@ -1,77 +1,209 @@
-import { createPublicClient, http, erc20Abi, getAddress } from 'viem';
-import { mainnet } from 'viem/chains';
+import { decodeAbiParameters, encodeFunctionData, erc20Abi, getAddress, hexToString, multicall3Abi, size, type Hex } from 'viem';
 import { db, schema } from '../db/client';
 import { eq, and } from 'drizzle-orm';
-import { RPC_URL } from './config';
+import { type ChainConfig } from './chains';
+import { type TokenStandard } from './config';
+import { getClient, withRetry } from './rpc';
 
-const client = createPublicClient({
-  chain: mainnet,
-  transport: http(RPC_URL),
-});
+// Canonical Multicall3 deployment, used when the viem chain doesn't list one
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
 
-// Cache to avoid repeated DB lookups within a batch
+// Tokens per aggregate3 call (up to three calls each)
+const MULTICALL_TOKEN_BATCH = 50;
+
+// metadata key holding the last refreshTokenMetadata.ts run per chain, shown in /status
+export const TOKEN_REFRESH_STATUS_KEY = 'token_metadata_refresh';
+
+export interface TokenRefreshSummary {
+  ranAt: number; // Unix seconds
+  checked: number;
+  completed: number; // Tokens with nothing missing anymore
+  decimalsUpdated: number;
+  eventsRenormalized: number;
+  datesMarked: number;
+  stillIncomplete: number;
+}
+
+// Cache to avoid repeated DB lookups within a batch, keyed by "chain:address"
 const tokenCache = new Map<string, number>();
 
-export async function resolveTokenId(tokenAddress: string): Promise<number | null> {
+export type MetadataField = 'symbol' | 'name' | 'decimals';
+
+export interface TokenMetadata {
+  symbol: string | null;
+  name: string | null;
+  decimals: number | null;
+  failures: Partial<Record<MetadataField, string>>; // Why each missing field failed, e.g. { decimals: 'reverted' }
+}
+
+const METADATA_FIELDS: MetadataField[] = ['symbol', 'name', 'decimals'];
+
+// The tokens.metadataError value: "decimals: reverted; name: no return data", or null when nothing failed
+export function describeFailures(failures: TokenMetadata['failures']): string | null {
+  const parts = METADATA_FIELDS.filter(f => failures[f]).map(f => `${f}: ${failures[f]}`);
+  return parts.length > 0 ? parts.join('; ') : null;
+}
+
+// The value stored in events.amountNormalized
+export function normalizeAmount(rawAmountWei: string, decimals: number): number {
+  return Number(BigInt(rawAmountWei)) / Math.pow(10, decimals);
+}
+
+// NFT collections have no decimals, and symbol()/name() are optional for them
+// (most ERC-1155s lack both), so only ERC-20 lookups can come back incomplete
+function fieldsFor(standard: TokenStandard): MetadataField[] {
+  return standard === 'erc20' ? METADATA_FIELDS : ['symbol', 'name'];
+}
+
+// string, or bytes32 for tokens that predate the ERC-20 spec settling (MKR, SAI, ...)
+function decodeText(data: Hex): string {
+  try {
+    return decodeAbiParameters([{ type: 'string' }], data)[0];
+  } catch {
+    if (size(data) !== 32) throw new Error('undecodable return data');
+    return hexToString(data, { size: 32 }).replace(/\0+$/, '');
+  }
+}
+
+// uint8 per the spec, but some implementations (and proxies in front of them) return a uint256
+function decodeDecimals(data: Hex): number {
+  const [value] = decodeAbiParameters([{ type: 'uint256' }], data);
+  if (value > 255n) throw new Error(`out of range (${value})`);
+  return Number(value);
+}
+
+function multicall3Address(chain: ChainConfig): `0x${string}` {
+  return chain.viemChain.contracts?.multicall3?.address ?? MULTICALL3_ADDRESS;
+}
+
+/**
+ * Reads symbol, name and decimals of many tokens through Multicall3, one
+ * aggregate3 round trip per MULTICALL_TOKEN_BATCH tokens. Individual calls
+ * may fail without failing the batch; the reason lands in `failures`.
+ */
+export async function fetchTokenMetadata(
+  chain: ChainConfig,
+  tokens: Array<{ address: string; standard: TokenStandard }>,
+): Promise<Map<string, TokenMetadata>> {
+  const client = getClient(chain);
+  const results = new Map<string, TokenMetadata>();
+
+  for (let i = 0; i < tokens.length; i += MULTICALL_TOKEN_BATCH) {
+    const batch = tokens.slice(i, i + MULTICALL_TOKEN_BATCH);
+    const calls = batch.flatMap(token => fieldsFor(token.standard).map(field => ({ token, field })));
+
+    let responses: readonly { success: boolean; returnData: Hex }[];
+    try {
+      responses = await withRetry(
+        () => client.readContract({
+          address: multicall3Address(chain),
+          abi: multicall3Abi,
+          functionName: 'aggregate3',
+          args: [calls.map(({ token, field }) => ({
+            target: token.address as `0x${string}`,
+            allowFailure: true,
+            callData: encodeFunctionData({ abi: erc20Abi, functionName: field }),
+          }))],
+        }),
+        `[${chain.name}] multicall metadata of ${batch.length} tokens`
+      );
+    } catch (err) {
+      const reason = `multicall failed: ${err instanceof Error ? err.message.split('\n')[0] : String(err)}`;
+      for (const token of batch) {
+        const failures = Object.fromEntries(fieldsFor(token.standard).map(field => [field, reason]));
+        results.set(token.address, { symbol: null, name: null, decimals: null, failures: token.standard === 'erc20' ? failures : {} });
+      }
+      continue;
+    }
+
+    for (const token of batch) {
+      results.set(token.address, { symbol: null, name: null, decimals: null, failures: {} });
+    }
+
+    calls.forEach(({ token, field }, j) => {
+      const { success, returnData } = responses[j];
+      const metadata = results.get(token.address)!;
+      try {
+        if (!success) throw new Error('reverted');
+        if (returnData === '0x') throw new Error('no return data');
+        if (field === 'decimals') {
+          metadata.decimals = decodeDecimals(returnData);
+        } else {
+          metadata[field] = decodeText(returnData);
+        }
+      } catch (err) {
+        if (token.standard === 'erc20') {
+          metadata.failures[field] = err instanceof Error ? err.message : String(err);
+        }
+      }
+    });
+  }
+
+  return results;
+}
+
+// Cache and database only: null for a token that was never resolved, without touching the RPC
+export async function findTokenId(chain: ChainConfig, tokenAddress: string): Promise<number | null> {
   const checksummed = getAddress(tokenAddress);
+  const cacheKey = `${chain.name}:${checksummed}`;
 
   // Check cache first
-  if (tokenCache.has(checksummed)) {
-    return tokenCache.get(checksummed)!;
+  if (tokenCache.has(cacheKey)) {
+    return tokenCache.get(cacheKey)!;
   }
 
-  // Check database (Ethereum chain)
+  // Check database
   const existing = await db.select()
     .from(schema.tokens)
-    .where(and(eq(schema.tokens.address, checksummed), eq(schema.tokens.chain, 'ethereum')))
+    .where(and(eq(schema.tokens.address, checksummed), eq(schema.tokens.chain, chain.name)))
     .get();
 
   if (existing) {
-    tokenCache.set(checksummed, existing.id);
+    tokenCache.set(cacheKey, existing.id);
     return existing.id;
   }
+  return null;
+}
 
-  // Fetch on-chain metadata
-  let symbol: string | null = null;
-  let decimals: number | null = null;
+/**
+ * Token ids for a batch of addresses (keyed as given). Tokens seen for the
+ * first time get their metadata in one multicall pass and are stored even when
+ * the lookup is incomplete, with the reason in metadataError.
+ */
+export async function resolveTokenIds(chain: ChainConfig, tokens: Map<string, TokenStandard>): Promise<Map<string, number | null>> {
+  const ids = new Map<string, number | null>();
+  const unknown: Array<{ key: string; address: string; standard: TokenStandard }> = [];
 
-  try {
-    const [fetchedSymbol, fetchedDecimals] = await Promise.all([
-      client.readContract({
-        address: checksummed as `0x${string}`,
-        abi: erc20Abi,
-        functionName: 'symbol',
-      }),
-      client.readContract({
-        address: checksummed as `0x${string}`,
-        abi: erc20Abi,
-        functionName: 'decimals',
-      }),
-    ]);
-    symbol = fetchedSymbol;
-    decimals = fetchedDecimals;
-  } catch (err) {
-    // Non-standard token, continue with null metadata
-    console.warn(`Failed to fetch metadata for ${checksummed}:`, err);
+  for (const [key, standard] of tokens) {
+    const id = await findTokenId(chain, key);
+    if (id !== null) {
+      ids.set(key, id);
+    } else {
+      unknown.push({ key, address: getAddress(key), standard });
+    }
   }
+  if (unknown.length === 0) return ids;
 
-  // Insert with onConflictDoNothing to handle race conditions
-  await db.insert(schema.tokens)
-    .values({ chain: 'ethereum', address: checksummed, symbol, decimals })
-    .onConflictDoNothing();
+  const metadata = await fetchTokenMetadata(chain, unknown);
+  const now = Math.floor(Date.now() / 1000);
 
-  // Query to get the ID (handles both new insert and existing)
-  const inserted = await db.select()
-    .from(schema.tokens)
-    .where(and(eq(schema.tokens.address, checksummed), eq(schema.tokens.chain, 'ethereum')))
-    .get();
+  for (const { key, address, standard } of unknown) {
+    const { symbol, name, decimals, failures } = metadata.get(address)!;
+    const error = describeFailures(failures);
+    if (error) {
+      console.warn(`[${chain.name}] Incomplete metadata for ${address}: ${error}`);
+    }
 
-  if (inserted) {
-    tokenCache.set(checksummed, inserted.id);
-    return inserted.id;
+    // Insert with onConflictDoNothing to handle race conditions
+    await db.insert(schema.tokens)
+      .values({ chain: chain.name, address, symbol, name, decimals, tokenStandard: standard, metadataError: error, metadataCheckedAt: now })
+      .onConflictDoNothing();
+
+    // Re-read the id (handles both new insert and existing)
+    ids.set(key, await findTokenId(chain, address));
   }
 
-  return null;
+  return ids;
 }
 
 export function clearTokenCache() {
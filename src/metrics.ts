@@ -0,0 +1,207 @@
+import { sql } from 'drizzle-orm';
+import { db, schema } from './db/client';
+
+// Prometheus metrics shared by every process. The web server renders its own
+// series (HTTP, analytics jobs run by start-all) from memory; the indexers and
+// other child processes flush theirs into metric_samples, which /metrics adds in.
+
+const FLUSH_INTERVAL_MS = 15_000;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+type Labels = Record<string, string>;
+
+interface MetricDefinition {
+  name: string;
+  help: string;
+  type: MetricType;
+  labelNames: string[];
+  buckets?: number[]; // Histograms only, in seconds
+}
+
+// One sample line: the series name (name_bucket, name_sum, ... for histograms) and its rendered labels
+interface Series {
+  name: string;
+  labels: string;
+  value: number;
+  flushed: number; // Part of `value` already written to metric_samples (NaN: a gauge never written)
+  mode: 'add' | 'set';
+}
+
+const definitions: MetricDefinition[] = [];
+const series = new Map<string, Series>();
+let flushTimer: ReturnType<typeof setInterval> | null = null;
+let flushesToDb = true;
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function renderLabels(def: MetricDefinition, labels: Labels, extra?: [string, string]): string {
+  const pairs = def.labelNames.map(name => `${name}="${escapeLabelValue(labels[name] ?? '')}"`);
+  if (extra) pairs.push(`${extra[0]}="${extra[1]}"`);
+  return pairs.join(',');
+}
+
+function update(name: string, labels: string, mode: Series['mode'], value: number): void {
+  const key = `${name}{${labels}}`;
+  let s = series.get(key);
+  if (!s) {
+    s = { name, labels, value: 0, flushed: mode === 'set' ? NaN : 0, mode };
+    series.set(key, s);
+  }
+  s.value = mode === 'add' ? s.value + value : value;
+
+  if (flushesToDb && !flushTimer) {
+    flushTimer = setInterval(() => { flushMetrics().catch(console.error); }, FLUSH_INTERVAL_MS);
+    flushTimer.unref();
+    // Processes that end by running out of work get their last samples out too
+    process.once('beforeExit', () => { flushMetrics().catch(console.error); });
+  }
+}
+
+function define(def: MetricDefinition): MetricDefinition {
+  definitions.push(def);
+  return def;
+}
+
+export class Counter {
+  private def: MetricDefinition;
+
+  constructor(name: string, help: string, labelNames: string[]) {
+    this.def = define({ name, help, type: 'counter', labelNames });
+  }
+
+  inc(labels: Labels, by = 1): void {
+    update(this.def.name, renderLabels(this.def, labels), 'add', by);
+  }
+}
+
+export class Gauge {
+  private def: MetricDefinition;
+
+  constructor(name: string, help: string, labelNames: string[]) {
+    this.def = define({ name, help, type: 'gauge', labelNames });
+  }
+
+  set(labels: Labels, value: number): void {
+    update(this.def.name, renderLabels(this.def, labels), 'set', value);
+  }
+}
+
+export class Histogram {
+  private def: MetricDefinition;
+
+  constructor(name: string, help: string, labelNames: string[], buckets: number[]) {
+    this.def = define({ name, help, type: 'histogram', labelNames, buckets });
+  }
+
+  observe(labels: Labels, value: number): void {
+    const { name, buckets } = this.def;
+    for (const le of [...buckets!, Infinity]) {
+      if (value <= le) {
+        update(`${name}_bucket`, renderLabels(this.def, labels, ['le', le === Infinity ? '+Inf' : String(le)]), 'add', 1);
+      }
+    }
+    update(`${name}_sum`, renderLabels(this.def, labels), 'add', value);
+    update(`${name}_count`, renderLabels(this.def, labels), 'add', 1);
+  }
+}
+
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+export const indexerBlocksBehind = new Gauge(
+  'railgun_indexer_blocks_behind', 'Confirmed head minus the last indexed block', ['chain']);
+export const indexerBatches = new Counter(
+  'railgun_indexer_batches_total', 'Block ranges indexed', ['chain']);
+export const indexerEvents = new Counter(
+  'railgun_indexer_events_total', 'Events decoded and stored by the indexer', ['chain']);
+export const indexerDecodeFailures = new Counter(
+  'railgun_indexer_decode_failures_total', 'Fetched logs no decoder understood (quarantined)', ['chain', 'topic0']);
+export const rpcRequestDuration = new Histogram(
+  'railgun_rpc_request_duration_seconds', 'JSON-RPC requests that got an answer, including node errors', ['chain', 'method', 'batch'], LATENCY_BUCKETS);
+export const rpcErrors = new Counter(
+  'railgun_rpc_errors_total', 'JSON-RPC requests that failed on every endpoint or with a node error', ['chain', 'method', 'batch', 'kind']);
+export const analyticsJobDuration = new Gauge(
+  'railgun_analytics_job_duration_seconds', 'Wall time of the last run of an analytics job', ['job']);
+export const analyticsJobRows = new Gauge(
+  'railgun_analytics_job_rows', 'Rows in the job\'s output table after its last run', ['job']);
+export const analyticsJobRuns = new Counter(
+  'railgun_analytics_job_runs_total', 'Analytics job attempts by outcome (success, failure, timeout)', ['job', 'status']);
+export const httpRequestDuration = new Histogram(
+  'railgun_http_request_duration_seconds', 'Web requests by route pattern', ['method', 'route', 'status'], LATENCY_BUCKETS);
+
+// Called by the process serving /metrics, whose own series are rendered from memory
+export function keepMetricsInMemory(): void {
+  flushesToDb = false;
+  if (flushTimer) clearInterval(flushTimer);
+  flushTimer = null;
+}
+
+/**
+ * Writes what changed since the last flush to metric_samples: counters and
+ * histogram parts as increments (so restarts and parallel processes add up),
+ * gauges as their current value.
+ */
+export async function flushMetrics(): Promise<void> {
+  if (!flushesToDb) return;
+  // Values as of now; anything recorded while the write is in flight goes out next time
+  const changed = [...series.values()].filter(s => !Object.is(s.value, s.flushed)).map(s => ({ s, current: s.value }));
+  if (changed.length === 0) return;
+
+  const now = Math.floor(Date.now() / 1000);
+  await db.transaction(async (tx) => {
+    for (const { s, current } of changed) {
+      const value = s.mode === 'add' ? current - s.flushed : current;
+      await tx.insert(schema.metricSamples)
+        .values({ name: s.name, labels: s.labels, value, updatedAt: now })
+        .onConflictDoUpdate({
+          target: [schema.metricSamples.name, schema.metricSamples.labels],
+          set: {
+            value: s.mode === 'add' ? sql`${schema.metricSamples.value} + ${value}` : value,
+            updatedAt: now,
+          },
+        });
+    }
+  });
+  for (const { s, current } of changed) s.flushed = current;
+}
+
+// Series of one label set together, histogram buckets in ascending "le" order
+function compareSamples(a: { labels: string }, b: { labels: string }): number {
+  const le = (labels: string) => {
+    const match = labels.match(/(?:^|,)le="([^"]*)"$/);
+    return match ? { rest: labels.slice(0, match.index), bound: match[1] === '+Inf' ? Infinity : Number(match[1]) } : { rest: labels, bound: 0 };
+  };
+  const x = le(a.labels);
+  const y = le(b.labels);
+  return x.rest.localeCompare(y.rest) || (x.bound === y.bound ? 0 : x.bound - y.bound);
+}
+
+function seriesNames(def: MetricDefinition): string[] {
+  return def.type === 'histogram' ? [`${def.name}_bucket`, `${def.name}_sum`, `${def.name}_count`] : [def.name];
+}
+
+// Prometheus text exposition of the stored samples plus this process's own series
+export async function renderMetrics(): Promise<string> {
+  const merged = new Map<string, { name: string; labels: string; value: number }>();
+  for (const row of await db.select().from(schema.metricSamples)) {
+    merged.set(`${row.name}{${row.labels}}`, { name: row.name, labels: row.labels, value: row.value });
+  }
+  for (const [key, s] of series) {
+    const stored = merged.get(key);
+    const value = stored && s.mode === 'add' ? stored.value + s.value - s.flushed : s.value;
+    merged.set(key, { name: s.name, labels: s.labels, value });
+  }
+
+  const lines: string[] = [];
+  for (const def of definitions) {
+    lines.push(`# HELP ${def.name} ${def.help}`, `# TYPE ${def.name} ${def.type}`);
+    for (const name of seriesNames(def)) {
+      const samples = [...merged.values()].filter(s => s.name === name).sort(compareSamples);
+      for (const s of samples) {
+        lines.push(`${s.name}${s.labels ? `{${s.labels}}` : ''} ${s.value}`);
+      }
+    }
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,322 @@
+import { eq, lt, sql } from 'drizzle-orm';
+import { type SQLiteTable } from 'drizzle-orm/sqlite-core';
+import { db, schema } from './db/client';
+import { analyticsJobDuration, analyticsJobRows, analyticsJobRuns } from './metrics';
+import { type DirtyScope } from './analytics/dirtyDates';
+import { refreshTokenMetadata } from './indexer/refreshTokenMetadata';
+import { computeDailyFlows } from './analytics/dailyFlows';
+import { computeRelayerStats } from './analytics/relayerStats';
+import { computeProtocolFeeRevenue } from './analytics/protocolFeeRevenue';
+import { computeTokenDiversity } from './analytics/tokenDiversity';
+import { computePrivateActivity } from './analytics/privateActivity';
+import { computeNftActivity } from './analytics/nftActivity';
+import { computeCommitmentTrees } from './analytics/commitmentTrees';
+import { fetchAndStorePrices } from './analytics/fetchPrices';
+import { computeRelayerGas } from './analytics/relayerGas';
+import { runClassification } from './analytics/classifyTokens';
+import { normalizeUsd } from './analytics/normalizeUsd';
+
+// The analytics jobs start-all.ts runs every few minutes, in this process, in
+// dependency order. Every attempt is recorded in job_runs for /admin/jobs.
+
+const DEFAULT_TIMEOUT_MS = 15 * 60 * 1000;
+const DEFAULT_RETRIES = 1;
+const RETRY_DELAY_MS = 10_000; // Times the attempt number
+const MAX_ERROR_LENGTH = 2000;
+export const JOB_RUN_RETENTION_DAYS = 14;
+
+export interface JobContext {
+  scope: DirtyScope | null; // Dates to re-aggregate; null rebuilds everything
+  signal: AbortSignal; // Aborted when the job times out
+}
+
+export interface Job {
+  name: string;
+  description: string;
+  dependsOn: string[]; // Skipped when one of these failed in the same pass
+  run: (ctx: JobContext) => Promise<unknown>;
+  outputTable?: SQLiteTable; // Counted after each attempt for job_runs and /metrics
+  // Per-date work: such a job only runs while dates are dirty (or on the first,
+  // full pass), and must succeed before they are cleared. "scoped" jobs get the
+  // dirty dates; "whole" ones redo everything whenever any date is dirty.
+  dirtyDates?: 'scoped' | 'whole';
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export type JobStatus = 'running' | 'success' | 'failure' | 'timeout' | 'skipped';
+
+export const JOBS: Job[] = [
+  {
+    // First, so decimals found here re-normalize amounts before this pass aggregates them.
+    // Not a dependency of those jobs: an RPC outage shouldn't hold back everything else.
+    name: 'token_metadata',
+    description: 'Retry incomplete token metadata and re-normalize event amounts',
+    dependsOn: [],
+    run: () => refreshTokenMetadata(),
+  },
+  {
+    name: 'daily_flows',
+    description: 'Daily shield and unshield volume per token',
+    dependsOn: [],
+    run: ({ scope }) => computeDailyFlows(scope),
+    outputTable: schema.dailyFlows,
+    dirtyDates: 'scoped',
+  },
+  {
+    name: 'relayer_stats',
+    description: 'Relayer concentration per day',
+    dependsOn: [],
+    run: ({ scope }) => computeRelayerStats(scope),
+    outputTable: schema.relayerStatsDaily,
+    dirtyDates: 'scoped',
+  },
+  {
+    name: 'protocol_fees',
+    description: 'Shield and unshield fees paid to the protocol',
+    dependsOn: [],
+    run: ({ scope }) => computeProtocolFeeRevenue(scope),
+    outputTable: schema.protocolFeeRevenueDaily,
+    dirtyDates: 'scoped',
+  },
+  {
+    name: 'token_diversity',
+    description: 'Distinct tokens moved per day',
+    dependsOn: [],
+    run: ({ scope }) => computeTokenDiversity(scope),
+    outputTable: schema.dailyTokenDiversity,
+    dirtyDates: 'scoped',
+  },
+  {
+    name: 'private_activity',
+    description: 'Shields, private transfers and unshields per day',
+    dependsOn: [],
+    run: ({ scope }) => computePrivateActivity(scope),
+    outputTable: schema.privateActivityDaily,
+    dirtyDates: 'scoped',
+  },
+  {
+    name: 'nft_activity',
+    description: 'Per-collection NFT shields and unshields (privacy-thresholded)',
+    dependsOn: [],
+    run: ({ scope }) => computeNftActivity(scope),
+    outputTable: schema.nftActivityDaily,
+    dirtyDates: 'scoped',
+  },
+  {
+    // Cumulative, so a change on one date moves every later one
+    name: 'commitment_trees',
+    description: 'Commitment tree growth and anonymity set size',
+    dependsOn: [],
+    run: () => computeCommitmentTrees(),
+    outputTable: schema.anonymitySetDaily,
+    dirtyDates: 'whole',
+  },
+  {
+    // Only fetches what isn't cached, so a timeout loses nothing
+    name: 'prices',
+    description: 'Historical token prices from DeFiLlama for the days with flows',
+    dependsOn: ['daily_flows'],
+    run: ({ signal }) => fetchAndStorePrices(signal),
+    outputTable: schema.tokenPricesDaily,
+    dirtyDates: 'whole',
+    timeoutMs: 60 * 60 * 1000,
+  },
+  {
+    name: 'relayer_gas',
+    description: 'Gas spent on relayed unshields against explicit relayer fee payments',
+    dependsOn: ['prices'],
+    run: ({ scope }) => computeRelayerGas(scope),
+    outputTable: schema.relayerGasDaily,
+    dirtyDates: 'scoped',
+  },
+  {
+    name: 'token_verification',
+    description: 'Verified / unverified / spam flags (a token without a price counts against it)',
+    dependsOn: ['prices'],
+    run: () => runClassification(),
+  },
+  {
+    name: 'usd',
+    description: 'USD columns of daily_flows and protocol_fee_revenue_daily from cached prices',
+    dependsOn: ['prices', 'protocol_fees'],
+    run: () => normalizeUsd(),
+  },
+];
+
+// Timed-out jobs that haven't actually stopped: they are skipped until they do
+const stillRunning = new Set<string>();
+
+class JobTimeoutError extends Error {
+  constructor(job: string, timeoutMs: number) {
+    super(`${job} timed out after ${timeoutMs / 1000}s`);
+    this.name = 'JobTimeoutError';
+  }
+}
+
+// Definition order, except that every job comes after the jobs it depends on
+export function orderJobs(jobs: Job[]): Job[] {
+  const byName = new Map(jobs.map(job => [job.name, job]));
+  const ordered: Job[] = [];
+  const visiting = new Set<string>();
+
+  const visit = (job: Job, path: string[]) => {
+    if (ordered.includes(job)) return;
+    if (visiting.has(job.name)) {
+      throw new Error(`Job dependency cycle: ${[...path, job.name].join(' -> ')}`);
+    }
+    visiting.add(job.name);
+    for (const name of job.dependsOn) {
+      const dependency = byName.get(name);
+      if (!dependency) throw new Error(`Job ${job.name} depends on unknown job ${name}`);
+      visit(dependency, [...path, job.name]);
+    }
+    visiting.delete(job.name);
+    ordered.push(job);
+  };
+
+  for (const job of jobs) visit(job, []);
+  return ordered;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// The message only: /admin/jobs is public, so the stack goes to the console alone
+function describeError(err: unknown): string {
+  const text = err instanceof Error ? err.message : String(err);
+  return text.length > MAX_ERROR_LENGTH ? `${text.slice(0, MAX_ERROR_LENGTH)}...` : text;
+}
+
+function describeJobScope(job: Job, scope: DirtyScope | null): string | null {
+  if (!job.dirtyDates) return null;
+  return job.dirtyDates === 'scoped' && scope ? `${scope.dates} dirty dates` : 'full';
+}
+
+async function countRows(table: SQLiteTable): Promise<number> {
+  const { rows } = (await db.select({ rows: sql<number>`count(*)` }).from(table).get())!;
+  return rows;
+}
+
+/**
+ * Runs the job once, giving up after its timeout. A timeout aborts the
+ * job's signal but can't stop code that doesn't check it, and only fires
+ * while the job awaits I/O: a synchronous SQLite query runs to the end.
+ */
+async function attemptJob(job: Job, scope: DirtyScope | null, timeoutMs: number): Promise<void> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const err = new JobTimeoutError(job.name, timeoutMs);
+      controller.abort(err);
+      reject(err);
+    }, timeoutMs);
+  });
+
+  const running = job.run({ scope, signal: controller.signal });
+  try {
+    await Promise.race([running, timedOut]);
+  } catch (err) {
+    if (err instanceof JobTimeoutError) {
+      stillRunning.add(job.name);
+      running.catch(() => {}).finally(() => stillRunning.delete(job.name));
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Attempts the job until it succeeds or runs out of retries; a timed-out attempt isn't retried
+async function runJob(job: Job, scope: DirtyScope | null, passStartedAt: number): Promise<boolean> {
+  const attempts = 1 + (job.retries ?? DEFAULT_RETRIES);
+  const timeoutMs = job.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const startedAt = performance.now();
+    const { id } = (await db.insert(schema.jobRuns).values({
+      job: job.name,
+      passStartedAt,
+      attempt,
+      status: 'running',
+      startedAt: Math.floor(Date.now() / 1000),
+      scope: describeJobScope(job, scope),
+    }).returning({ id: schema.jobRuns.id }).get())!;
+
+    let status: JobStatus = 'success';
+    let error: string | null = null;
+    try {
+      await attemptJob(job, scope, timeoutMs);
+    } catch (err) {
+      status = err instanceof JobTimeoutError ? 'timeout' : 'failure';
+      error = describeError(err);
+      console.error(`[scheduler] ${job.name} failed (attempt ${attempt}/${attempts}):`, err);
+    }
+
+    const durationMs = Math.round(performance.now() - startedAt);
+    const rowCount = job.outputTable ? await countRows(job.outputTable) : null;
+    await db.update(schema.jobRuns)
+      .set({ status, durationMs, rowCount, error })
+      .where(eq(schema.jobRuns.id, id));
+
+    analyticsJobDuration.set({ job: job.name }, durationMs / 1000);
+    analyticsJobRuns.inc({ job: job.name, status });
+    if (rowCount !== null) analyticsJobRows.set({ job: job.name }, rowCount);
+
+    if (status === 'success') return true;
+    if (status === 'timeout') return false;
+    if (attempt < attempts) {
+      console.log(`[scheduler] Retrying ${job.name} in ${(RETRY_DELAY_MS * attempt) / 1000}s...`);
+      await sleep(RETRY_DELAY_MS * attempt);
+    }
+  }
+  return false;
+}
+
+async function recordSkipped(job: Job, passStartedAt: number, reason: string): Promise<void> {
+  console.warn(`[scheduler] Skipping ${job.name}: ${reason}`);
+  await db.insert(schema.jobRuns).values({
+    job: job.name,
+    passStartedAt,
+    status: 'skipped',
+    startedAt: Math.floor(Date.now() / 1000),
+    error: reason,
+  });
+}
+
+/**
+ * One pass over the job graph, one job at a time. A job whose dependency
+ * failed (or was itself skipped) is skipped; per-date jobs are left out
+ * without a record when `scope` has no dirty dates. Returns the names of
+ * the jobs that failed, timed out or were skipped.
+ */
+export async function runJobs(scope: DirtyScope | null, jobs: Job[] = JOBS): Promise<Set<string>> {
+  const passStartedAt = Math.floor(Date.now() / 1000);
+  const failed = new Set<string>();
+
+  // Nothing runs between passes, so a run still marked running was cut short by a restart
+  await db.update(schema.jobRuns)
+    .set({ status: 'failure', error: 'Interrupted: the process exited during the run' })
+    .where(eq(schema.jobRuns.status, 'running'));
+  await db.delete(schema.jobRuns)
+    .where(lt(schema.jobRuns.startedAt, passStartedAt - JOB_RUN_RETENTION_DAYS * 24 * 60 * 60));
+
+  for (const job of orderJobs(jobs)) {
+    if (job.dirtyDates && scope?.dates === 0) continue;
+
+    const failedDependency = job.dependsOn.find(name => failed.has(name));
+    if (failedDependency) {
+      await recordSkipped(job, passStartedAt, `Dependency ${failedDependency} did not succeed`);
+      failed.add(job.name);
+    } else if (stillRunning.has(job.name)) {
+      await recordSkipped(job, passStartedAt, 'Still running after timing out in an earlier pass');
+      failed.add(job.name);
+    } else if (!(await runJob(job, scope, passStartedAt))) {
+      failed.add(job.name);
+    }
+  }
+
+  return failed;
+}
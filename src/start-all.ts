@@ -1,27 +1,35 @@
 import { spawn, type Subprocess } from 'bun';
+import { CHAINS, CHAIN_NAMES, type ChainConfig, type SupportedChain } from './indexer/chains';
+import { clearDirtyDates, countDirtyDates } from './analytics/dirtyDates';
+import { JOBS, runJobs } from './scheduler';
 
-const INDEXER_RESTART_DELAY_MS = 60_000;
-const POLYGON_INDEXER_RESTART_DELAY_MS = 90_000; // Longer delay for Polygon due to rate limits
+// Stagger indexer start-up to avoid all chains competing for SQLite writes simultaneously
+const INDEXER_STAGGER_MS = 30_000;
 const ANALYTICS_INTERVAL_MS = 5 * 60 * 1000; // Run analytics every 5 minutes
 
 let analyticsRunning = false;
 
+// The first analytics run rebuilds the daily tables; later ones only the dates marked dirty since
+let fullRebuildDone = false;
+
 // Track indexer status for the /status endpoint
-export const indexerStatus = {
-  ethereum: {
-    running: false,
-    lastStarted: null as Date | null,
-    lastCompleted: null as Date | null,
-    lastExitCode: null as number | null,
-  },
-  polygon: {
+interface IndexerStatus {
+  running: boolean;
+  lastStarted: Date | null;
+  lastExited: Date | null;
+  lastExitCode: number | null;
+}
+
+export const indexerStatus = Object.fromEntries(
+  CHAIN_NAMES.map(name => [name, {
     running: false,
-    lastStarted: null as Date | null,
-    lastCompleted: null as Date | null,
-    lastExitCode: null as number | null,
-  },
-};
+    lastStarted: null,
+    lastExited: null,
+    lastExitCode: null,
+  }])
+) as Record<SupportedChain, IndexerStatus>;
 
+// One scheduler pass: everything on the first, then just the (chain, date) pairs marked dirty since
 async function runAnalytics(): Promise<void> {
   if (analyticsRunning) {
     console.log('[start-all] Analytics already running, skipping...');
@@ -32,48 +40,28 @@ async function runAnalytics(): Promise<void> {
   console.log('[start-all] Running analytics...');
 
   try {
-    // Run daily flows analytics
-    const flowsProc = spawn(['bun', 'run', 'src/analytics/dailyFlows.ts'], {
-      stdout: 'inherit',
-      stderr: 'inherit',
-      cwd: process.cwd(),
-    });
-    await flowsProc.exited;
-
-    // Run relayer stats analytics
-    const relayerProc = spawn(['bun', 'run', 'src/analytics/relayerStats.ts'], {
-      stdout: 'inherit',
-      stderr: 'inherit',
-      cwd: process.cwd(),
-    });
-    await relayerProc.exited;
-
-    // Run relayer fee revenue analytics
-    const feesProc = spawn(['bun', 'run', 'src/analytics/relayerFeeRevenue.ts'], {
-      stdout: 'inherit',
-      stderr: 'inherit',
-      cwd: process.cwd(),
-    });
-    await feesProc.exited;
-
-    // Fetch historical token prices from DeFiLlama for any (date, chain, token)
-    // combos that don't yet have a price cached.
-    const pricesProc = spawn(['bun', 'run', 'src/analytics/fetchPrices.ts'], {
-      stdout: 'inherit',
-      stderr: 'inherit',
-      cwd: process.cwd(),
-    });
-    await pricesProc.exited;
-
-    // Back-populate USD columns in daily_flows from cached prices.
-    const usdProc = spawn(['bun', 'run', 'src/analytics/normalizeUsd.ts'], {
-      stdout: 'inherit',
-      stderr: 'inherit',
-      cwd: process.cwd(),
-    });
-    await usdProc.exited;
-
-    console.log('[start-all] Analytics complete.');
+    // A second back: a date marked dirty this second may still have events being written
+    const dirtyUntil = Math.floor(Date.now() / 1000) - 1;
+    const scope = fullRebuildDone ? { until: dirtyUntil, dates: await countDirtyDates(dirtyUntil) } : null;
+    if (scope) {
+      console.log(scope.dates === 0
+        ? '[start-all] No dirty dates, skipping the daily aggregations'
+        : `[start-all] Re-aggregating ${scope.dates} dirty dates...`);
+    }
+
+    const failed = await runJobs(scope);
+
+    // A failed per-date job keeps the dates dirty, so the next run recomputes them everywhere
+    if (JOBS.some(job => job.dirtyDates && failed.has(job.name))) {
+      console.warn('[start-all] A daily aggregation failed, keeping the dirty dates for the next run');
+    } else {
+      await clearDirtyDates(dirtyUntil);
+      fullRebuildDone = true;
+    }
+
+    console.log(failed.size === 0
+      ? '[start-all] Analytics complete.'
+      : `[start-all] Analytics complete, with failed or skipped jobs: ${[...failed].join(', ')}`);
   } finally {
     analyticsRunning = false;
   }
@@ -89,75 +77,28 @@ function startAnalyticsInterval(): void {
   }, ANALYTICS_INTERVAL_MS);
 }
 
-function startEthereumIndexer(): Subprocess {
-  console.log('[start-all] Starting Ethereum indexer...');
-  indexerStatus.ethereum.running = true;
-  indexerStatus.ethereum.lastStarted = new Date();
+function startIndexer(chain: ChainConfig): Subprocess {
+  const status = indexerStatus[chain.name as SupportedChain];
+  console.log(`[start-all] Starting ${chain.label} indexer...`);
+  status.running = true;
+  status.lastStarted = new Date();
 
-  const proc = spawn(['bun', 'run', 'src/indexer/indexEthereum.ts'], {
+  // Follow mode: the indexer stays up and indexes new blocks as they confirm,
+  // leaving the dates it touched dirty for the periodic analytics run
+  const proc = spawn(['bun', 'run', 'src/indexer/indexChain.ts', chain.name, '--follow'], {
     stdout: 'inherit',
     stderr: 'inherit',
     cwd: process.cwd(),
   });
 
-  proc.exited.then(async (code) => {
-    console.log(`[start-all] Ethereum indexer exited with code ${code}`);
-    indexerStatus.ethereum.running = false;
-    indexerStatus.ethereum.lastCompleted = new Date();
-    indexerStatus.ethereum.lastExitCode = code;
-
-    // Run analytics after indexer completes
-    try {
-      await runAnalytics();
-    } catch (err) {
-      console.error('[start-all] Analytics failed:', err);
-    }
+  proc.exited.then((code) => {
+    status.running = false;
+    status.lastExited = new Date();
+    status.lastExitCode = code;
 
-    if (code !== 0) {
-      console.log(`[start-all] Restarting Ethereum indexer in ${INDEXER_RESTART_DELAY_MS / 1000}s...`);
-      setTimeout(() => startEthereumIndexer(), INDEXER_RESTART_DELAY_MS);
-    } else {
-      // Indexer completed successfully (caught up), restart after delay to check for new blocks
-      console.log(`[start-all] Ethereum indexer caught up, checking for new blocks in ${INDEXER_RESTART_DELAY_MS / 1000}s...`);
-      setTimeout(() => startEthereumIndexer(), INDEXER_RESTART_DELAY_MS);
-    }
-  });
-
-  return proc;
-}
-
-function startPolygonIndexer(): Subprocess {
-  console.log('[start-all] Starting Polygon indexer...');
-  indexerStatus.polygon.running = true;
-  indexerStatus.polygon.lastStarted = new Date();
-
-  const proc = spawn(['bun', 'run', 'src/indexer/indexPolygon.ts'], {
-    stdout: 'inherit',
-    stderr: 'inherit',
-    cwd: process.cwd(),
-  });
-
-  proc.exited.then(async (code) => {
-    console.log(`[start-all] Polygon indexer exited with code ${code}`);
-    indexerStatus.polygon.running = false;
-    indexerStatus.polygon.lastCompleted = new Date();
-    indexerStatus.polygon.lastExitCode = code;
-
-    // Run analytics after indexer completes
-    try {
-      await runAnalytics();
-    } catch (err) {
-      console.error('[start-all] Analytics failed:', err);
-    }
-
-    if (code !== 0) {
-      console.log(`[start-all] Restarting Polygon indexer in ${POLYGON_INDEXER_RESTART_DELAY_MS / 1000}s...`);
-      setTimeout(() => startPolygonIndexer(), POLYGON_INDEXER_RESTART_DELAY_MS);
-    } else {
-      // Indexer completed successfully (caught up), restart after delay to check for new blocks
-      console.log(`[start-all] Polygon indexer caught up, checking for new blocks in ${POLYGON_INDEXER_RESTART_DELAY_MS / 1000}s...`);
-      setTimeout(() => startPolygonIndexer(), POLYGON_INDEXER_RESTART_DELAY_MS);
-    }
+    // A following indexer only exits when something went wrong
+    console.log(`[start-all] ${chain.label} indexer exited with code ${code}, restarting in ${chain.restartDelayMs / 1000}s...`);
+    setTimeout(() => startIndexer(chain), chain.restartDelayMs);
   });
 
   return proc;
@@ -171,10 +112,10 @@ async function main() {
   console.log('[start-all] Starting web server...');
   await import('./server');
 
-  // Start Ethereum indexer immediately, stagger Polygon by 30s
-  // to avoid both indexers competing for SQLite writes simultaneously
-  startEthereumIndexer();
-  setTimeout(() => startPolygonIndexer(), 30_000);
+  // Start the first chain's indexer immediately and stagger the rest
+  CHAIN_NAMES.forEach((name, i) => {
+    setTimeout(() => startIndexer(CHAINS[name]), i * INDEXER_STAGGER_MS);
+  });
 
   // Delay analytics until indexers have had time to populate data
   // (running analytics on an empty DB is wasted work)
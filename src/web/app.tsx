@@ -2,7 +2,7 @@ import { Hono } from 'hono';
 import { jsxRenderer } from 'hono/jsx-renderer';
 import { serveStatic } from 'hono/bun';
 import { db, schema } from '../db/client';
-import { desc, sql, eq, and, gte, lte } from 'drizzle-orm';
+import { desc, sql, eq, and, or, gte, lte, isNull, isNotNull } from 'drizzle-orm';
 import {
   getMeanDepositAmountsOverTime,
   getMeanWithdrawalAmountsOverTime,
@@ -13,12 +13,23 @@ import {
   getTopTokensByVolume,
   getTopTokensByTransactionCount,
   getTokenDiversityOverTime,
+  getPrivateActivityOverTime,
+  getProtocolFeeRevenueOverTime,
   getActiveRelayersOverTime,
   getTop5RelayerShareOverTime,
   getNetFlowOverTime,
+  getAnonymitySetOverTime,
+  getCommitmentTreeGrowth,
+  getShieldedTvlOverTime,
+  getRelayerGasOverTime,
 } from '../analytics/chartData';
+import { CHAINS, CHAIN_NAMES, isSupportedChain, type SupportedChain } from '../indexer/chains';
+import { TOKEN_REFRESH_STATUS_KEY, type TokenRefreshSummary } from '../indexer/tokenResolver';
+import { httpRequestDuration, keepMetricsInMemory, renderMetrics } from '../metrics';
+import { JOBS, JOB_RUN_RETENTION_DAYS, orderJobs } from '../scheduler';
+import { isTokenVisible, parseTokenVisibility, visibleTokenCondition, defaultTokenVisibility, type TokenVisibility } from '../analytics/tokenVerification';
 
-type ChainName = 'ethereum' | 'polygon' | 'all';
+type ChainName = SupportedChain | 'all';
 type TimePreset = '7d' | '30d' | '90d' | '1y' | 'all' | 'custom';
 type EventTypeFilter = 'all' | 'deposits' | 'withdrawals';
 
@@ -29,8 +40,21 @@ interface FilterParams {
   tokenId: number | null;
   eventType: EventTypeFilter;
   minVolume: number | null;
+  tokenVisibility: TokenVisibility;
 }
 
+const TOKEN_VISIBILITY_OPTIONS: { value: TokenVisibility; label: string }[] = [
+  { value: 'verified', label: 'Verified Only' },
+  { value: 'no-spam', label: 'Hide Spam' },
+  { value: 'all', label: 'All Tokens' },
+];
+
+// Tokens stacked individually on the /charts TVL chart; smaller ones are summed as "Other"
+const TVL_CHART_TOKENS = 8;
+
+// Most recent job_runs rows listed on /admin/jobs
+const JOB_RUNS_SHOWN = 500;
+
 // Client-side pagination component (renders placeholder, JS handles logic)
 function ClientPagination({ tableId, defaultLimit = 20 }: { tableId: string; defaultLimit?: number }) {
   return (
@@ -59,14 +83,14 @@ function ClientPagination({ tableId, defaultLimit = 20 }: { tableId: string; def
 
 function getChainFromQuery(c: any): ChainName {
   const chain = c.req.query('chain') as string;
-  if (chain === 'polygon') return 'polygon';
+  if (isSupportedChain(chain)) return chain;
   if (chain === 'all') return 'all';
   return 'ethereum';
 }
 
 function getChainLabel(chain: ChainName): string {
   if (chain === 'all') return 'All Networks';
-  return chain.charAt(0).toUpperCase() + chain.slice(1);
+  return CHAINS[chain].label;
 }
 
 // Calculate date range from preset
@@ -120,6 +144,7 @@ function getFiltersFromQuery(c: any): FilterParams {
   const tokenIdStr = c.req.query('tokenId') as string | undefined;
   const eventType = (c.req.query('eventType') as EventTypeFilter) || 'all';
   const minVolumeStr = c.req.query('minVolume') as string | undefined;
+  const tokenVisibility = parseTokenVisibility(c.req.query('tokenVisibility'));
 
   let startDate: string | null = null;
   let endDate: string | null = null;
@@ -140,6 +165,7 @@ function getFiltersFromQuery(c: any): FilterParams {
     tokenId: tokenIdStr ? parseInt(tokenIdStr) : null,
     eventType,
     minVolume: minVolumeStr ? parseFloat(minVolumeStr) : null,
+    tokenVisibility,
   };
 }
 
@@ -151,11 +177,12 @@ interface FilterBarProps {
   showTokenFilter?: boolean;
   showEventTypeFilter?: boolean;
   showMinVolumeFilter?: boolean;
+  showTokenVisibilityFilter?: boolean;
   tokens?: Array<{ id: number; symbol: string | null }>;
 }
 
 // FilterBar component
-function FilterBar({ chain, filters, basePath, showTokenFilter, showEventTypeFilter, showMinVolumeFilter, tokens }: FilterBarProps) {
+function FilterBar({ chain, filters, basePath, showTokenFilter, showEventTypeFilter, showMinVolumeFilter, showTokenVisibilityFilter, tokens }: FilterBarProps) {
   const timePresets: { value: TimePreset; label: string }[] = [
     { value: 'all', label: 'All Time' },
     { value: '7d', label: 'Last 7 Days' },
@@ -212,6 +239,17 @@ function FilterBar({ chain, filters, basePath, showTokenFilter, showEventTypeFil
           </div>
         )}
 
+        {showTokenVisibilityFilter && (
+          <div class="filter-group">
+            <label for="tokenVisibility">Tokens:</label>
+            <select name="tokenVisibility" id="tokenVisibility" class="filter-select">
+              {TOKEN_VISIBILITY_OPTIONS.map(o => (
+                <option value={o.value} selected={o.value === filters.tokenVisibility}>{o.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {showEventTypeFilter && (
           <div class="filter-group">
             <label for="eventType">Show:</label>
@@ -250,6 +288,20 @@ function FilterBar({ chain, filters, basePath, showTokenFilter, showEventTypeFil
 
 const app = new Hono();
 
+// This process serves /metrics, so its own series never need to go through the database
+keepMetricsInMemory();
+
+// Request latency per route pattern (not per path, which would be unbounded)
+app.use('*', async (c, next) => {
+  const startedAt = performance.now();
+  await next();
+  const route = c.req.routePath === '/*' ? 'unmatched' : c.req.routePath;
+  httpRequestDuration.observe(
+    { method: c.req.method, route, status: String(c.res.status) },
+    (performance.now() - startedAt) / 1000
+  );
+});
+
 // Serve static files
 app.use('/static/*', serveStatic({ root: './src/web/' }));
 
@@ -334,6 +386,11 @@ app.use('*', jsxRenderer(({ children }) => {
           }
           .token-amount { color: #7d8590; font-size: 0.85rem; }
           .muted { color: #7d8590; }
+          .token-spam { color: #f85149; }
+          .history-warning { color: #d29922; }
+          .job-ok { color: #3fb950; }
+          .job-failed { color: #f85149; }
+          .job-error { white-space: pre-wrap; font-size: 0.8rem; max-width: 60rem; }
           .pagination { display: flex; flex-wrap: wrap; align-items: center; gap: 1rem; margin: 1.5rem 0; padding: 1rem 0; border-top: 1px solid #30363d; }
           .pagination-info { color: #7d8590; font-size: 0.9rem; }
           .pagination-controls { display: flex; align-items: center; gap: 0.25rem; }
@@ -530,14 +587,17 @@ app.use('*', jsxRenderer(({ children }) => {
             <a href="/?chain=ethereum" id="nav-overview">Overview</a>
             <a href="/tokens?chain=ethereum" id="nav-tokens">Tokens</a>
             <a href="/relayers?chain=ethereum" id="nav-relayers">Relayers</a>
+            <a href="/nfts?chain=ethereum" id="nav-nfts">NFTs</a>
+            <a href="/fees?chain=ethereum" id="nav-fees">Protocol Fees</a>
             <a href="/charts?chain=ethereum" id="nav-charts">Charts</a>
             <a href="/ethics?chain=ethereum" id="nav-ethics">Ethics &amp; Limitations</a>
             <div class="network-selector">
               <label for="chain-select">Network:</label>
               <select id="chain-select">
                 <option value="all">All Networks</option>
-                <option value="ethereum">Ethereum</option>
-                <option value="polygon">Polygon</option>
+                {CHAIN_NAMES.map(name => (
+                  <option value={name}>{CHAINS[name].label}</option>
+                ))}
               </select>
             </div>
           </nav>
@@ -567,7 +627,7 @@ app.use('*', jsxRenderer(({ children }) => {
             }
             
             // Update all nav links with current chain
-            const pages = ['overview', 'tokens', 'relayers', 'charts', 'ethics'];
+            const pages = ['overview', 'tokens', 'relayers', 'nfts', 'fees', 'charts', 'ethics'];
             pages.forEach(page => {
               const link = document.getElementById('nav-' + page);
               if (link) {
@@ -590,10 +650,11 @@ app.get('/', async (c) => {
     const filters = getFiltersFromQuery(c);
 
     // Fetch tokens for the filter dropdown, ordered by event count (relevance)
-    const allTokens = chain === 'all'
+    const tokenRows = chain === 'all'
       ? await db.select({
           id: schema.tokens.id,
           symbol: schema.tokens.symbol,
+          verification: schema.tokens.verification,
         })
           .from(schema.tokens)
           .leftJoin(schema.events, eq(schema.events.tokenId, schema.tokens.id))
@@ -602,12 +663,15 @@ app.get('/', async (c) => {
       : await db.select({
           id: schema.tokens.id,
           symbol: schema.tokens.symbol,
+          verification: schema.tokens.verification,
         })
           .from(schema.tokens)
           .leftJoin(schema.events, and(eq(schema.events.tokenId, schema.tokens.id), eq(schema.events.chain, chain)))
           .where(eq(schema.tokens.chain, chain))
           .groupBy(schema.tokens.id)
           .orderBy(desc(sql`COUNT(${schema.events.id})`));
+    // A token picked before the visibility was narrowed stays selectable
+    const allTokens = tokenRows.filter(t => isTokenVisible(t.verification, filters.tokenVisibility) || t.id === filters.tokenId);
 
     // Build conditions array
     const conditions = [];
@@ -622,6 +686,9 @@ app.get('/', async (c) => {
     }
     if (filters.tokenId) {
       conditions.push(eq(schema.dailyFlows.tokenId, filters.tokenId));
+    } else {
+      const visible = visibleTokenCondition(schema.dailyFlows.tokenId, filters.tokenVisibility);
+      if (visible) conditions.push(visible);
     }
 
     // Base select for aggregation
@@ -648,6 +715,20 @@ app.get('/', async (c) => {
     const showDeposits = filters.eventType === 'all' || filters.eventType === 'deposits';
     const showWithdrawals = filters.eventType === 'all' || filters.eventType === 'withdrawals';
 
+    // Transaction counts by kind; Transact events carry no token, so only shown unfiltered
+    const showActivity = !filters.tokenId;
+    const activityByDate = new Map<string, { shields: number; transacts: number; unshields: number }>();
+    if (showActivity) {
+      const activity = await getPrivateActivityOverTime({
+        chain,
+        startDate: filters.startDate ?? undefined,
+        endDate: filters.endDate ?? undefined,
+      });
+      for (const row of activity) {
+        activityByDate.set(row.date, row);
+      }
+    }
+
     return c.render(
     <section>
       <h2>Daily Overview {filters.tokenId ? '' : '(All Tokens)'} <span class="chain-badge">{getChainLabel(chain)}</span></h2>
@@ -657,6 +738,7 @@ app.get('/', async (c) => {
         filters={filters}
         basePath="/"
         showTokenFilter={true}
+        showTokenVisibilityFilter={true}
         showEventTypeFilter={true}
         tokens={allTokens}
       />
@@ -668,11 +750,14 @@ app.get('/', async (c) => {
             {showDeposits && <th>Deposits</th>}
             {showWithdrawals && <th>Withdrawals</th>}
             {showDeposits && showWithdrawals && <th>Net Flow</th>}
+            {showActivity && <th>Shield Txs</th>}
+            {showActivity && <th>Transact Txs</th>}
+            {showActivity && <th>Unshield Txs</th>}
           </tr>
         </thead>
         <tbody>
           {flows.length === 0 ? (
-            <tr><td colSpan={4}>No data found for the selected filters.</td></tr>
+            <tr><td colSpan={7}>No data found for the selected filters.</td></tr>
           ) : (
             flows.map((row, idx) => (
               <tr data-row={idx}>
@@ -680,6 +765,9 @@ app.get('/', async (c) => {
                 {showDeposits && <td>{row.totalDeposits?.toFixed(2)}</td>}
                 {showWithdrawals && <td>{row.totalWithdrawals?.toFixed(2)}</td>}
                 {showDeposits && showWithdrawals && <td>{row.netFlow?.toFixed(2)}</td>}
+                {showActivity && <td>{activityByDate.get(row.date)?.shields ?? 0}</td>}
+                {showActivity && <td>{activityByDate.get(row.date)?.transacts ?? 0}</td>}
+                {showActivity && <td>{activityByDate.get(row.date)?.unshields ?? 0}</td>}
               </tr>
             ))
           )}
@@ -712,6 +800,8 @@ app.get('/tokens', async (c) => {
     joinConditions.push(lte(schema.dailyFlows.date, filters.endDate));
   }
 
+  const visible = visibleTokenCondition(schema.tokens.id, filters.tokenVisibility);
+
   // Fetch all tokens with filtered stats. SQLite sorts NULLs last in DESC,
   // so tokens without USD price data fall to the bottom automatically.
   const tokenStatsQuery = chain === 'all'
@@ -719,23 +809,28 @@ app.get('/tokens', async (c) => {
         id: schema.tokens.id,
         symbol: schema.tokens.symbol,
         address: schema.tokens.address,
+        verification: schema.tokens.verification,
+        spamSignals: schema.tokens.spamSignals,
         totalDeposits: sql<number>`sum(${schema.dailyFlows.totalDeposits})`,
         totalDepositsUsd: sql<number | null>`sum(${schema.dailyFlows.totalDepositsUsd})`,
       })
         .from(schema.tokens)
         .leftJoin(schema.dailyFlows, and(...joinConditions))
+        .where(and(eq(schema.tokens.tokenStandard, 'erc20'), visible))
         .groupBy(schema.tokens.id)
         .orderBy(desc(sql`sum(${schema.dailyFlows.totalDepositsUsd})`))
     : db.select({
         id: schema.tokens.id,
         symbol: schema.tokens.symbol,
         address: schema.tokens.address,
+        verification: schema.tokens.verification,
+        spamSignals: schema.tokens.spamSignals,
         totalDeposits: sql<number>`sum(${schema.dailyFlows.totalDeposits})`,
         totalDepositsUsd: sql<number | null>`sum(${schema.dailyFlows.totalDepositsUsd})`,
       })
         .from(schema.tokens)
         .leftJoin(schema.dailyFlows, and(...joinConditions))
-        .where(eq(schema.tokens.chain, chain))
+        .where(and(eq(schema.tokens.chain, chain), eq(schema.tokens.tokenStandard, 'erc20'), visible))
         .groupBy(schema.tokens.id)
         .orderBy(desc(sql`sum(${schema.dailyFlows.totalDepositsUsd})`));
 
@@ -750,6 +845,8 @@ app.get('/tokens', async (c) => {
     `$${v.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
   const formatTokens = (v: number) =>
     v.toLocaleString('en-US', { maximumFractionDigits: 4 });
+  // Verified-only needs no status column
+  const showStatus = filters.tokenVisibility !== 'verified';
 
   return c.render(
     <section>
@@ -760,15 +857,19 @@ app.get('/tokens', async (c) => {
         filters={filters}
         basePath="/tokens"
         showMinVolumeFilter={true}
+        showTokenVisibilityFilter={true}
       />
 
       <table id="tokens-table">
         <thead>
-          <tr><th>Symbol</th><th>Total Deposits (USD)</th><th>Details</th></tr>
+          <tr><th>Symbol</th><th>Total Deposits (USD)</th>{showStatus && <th>Status</th>}<th>Details</th></tr>
         </thead>
         <tbody>
           {filteredTokens.length === 0 ? (
-            <tr><td colSpan={3}>No tokens found for the selected filters.</td></tr>
+            <tr><td colSpan={showStatus ? 4 : 3}>
+              No tokens found for the selected filters.
+              {filters.tokenVisibility === 'verified' && ' Only tokens on an imported token list are shown (bun run tokens:import-list).'}
+            </td></tr>
           ) : (
             filteredTokens.map((t, idx) => {
               const tokens = t.totalDeposits ?? 0;
@@ -782,6 +883,11 @@ app.get('/tokens', async (c) => {
                     {' '}
                     <span class="token-amount">({formatTokens(tokens)} {symbol})</span>
                   </td>
+                  {showStatus && (
+                    <td class={t.verification === 'spam' ? 'token-spam' : t.verification === 'unverified' ? 'muted' : ''} title={t.spamSignals ?? ''}>
+                      {t.verification}
+                    </td>
+                  )}
                   <td><a href={`/tokens/${t.id}?chain=${chain}`}>View</a></td>
                 </tr>
               );
@@ -835,6 +941,9 @@ app.get('/tokens/:id', async (c) => {
   return c.render(
     <section>
       <h2>{token?.symbol || 'Token'} Daily Flows <span class="chain-badge">{getChainLabel(chain)}</span></h2>
+      {token?.name && <p class="muted">{token.name}</p>}
+      {token?.verification === 'spam' && <p class="token-spam">Flagged as likely spam: {token.spamSignals}</p>}
+      {token?.verification === 'unverified' && <p class="muted">Not on any imported token list.</p>}
       <p><a href={`/tokens?chain=${chain}`}>← Back to Tokens</a></p>
 
       <FilterBar
@@ -906,6 +1015,32 @@ app.get('/relayers', async (c) => {
         .groupBy(schema.relayerStatsDaily.date)
         .orderBy(desc(schema.relayerStatsDaily.date));
 
+  // Gas economics, one line per chain: medians can't be combined across chains
+  const gas = await getRelayerGasOverTime({
+    chain,
+    startDate: filters.startDate ?? undefined,
+    endDate: filters.endDate ?? undefined,
+  });
+  const totalGasUsd = gas.reduce((sum, d) => sum + (d.gasCostUsd ?? 0), 0);
+  const totalFeeIncomeUsd = gas.reduce((sum, d) => sum + d.feeIncomeUsd, 0);
+  const gasChains = CHAIN_NAMES.filter(name => gas.some(d => d.chain === name));
+  const gasSeries = (value: (d: typeof gas[number]) => number | null) => alignChainSeries(
+    gasChains.map(name => ({
+      chain: name,
+      points: gas.flatMap(d => {
+        const v = value(d);
+        return d.chain === name && v !== null ? [{ date: d.date, value: v }] : [];
+      }),
+    }))
+  );
+  const gasCharts = {
+    margin: gasSeries(d => d.medianMarginUsd),
+    gasCost: gasSeries(d => d.medianGasCostUsd),
+  };
+
+  const formatUsd = (v: number) =>
+    `$${v.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
   return c.render(
     <section>
       <h2>Relayer Concentration Metrics <span class="chain-badge">{getChainLabel(chain)}</span></h2>
@@ -917,6 +1052,66 @@ app.get('/relayers', async (c) => {
         basePath="/relayers"
       />
 
+      <h3>Gas Economics</h3>
+      <p>
+        Relayer fee income (partial, explicit payments only): <strong>{formatUsd(totalFeeIncomeUsd)}</strong> &middot;
+        Gas spent on unshields: <strong>{formatUsd(totalGasUsd)}</strong>
+        <span class="muted"> (priced days only)</span>
+      </p>
+      <p class="muted">
+        Gas comes from the receipts of relayed unshields, valued at the wrapped native token's price. Income only
+        counts explicit relayer payments: most relayers are paid with a private note inside the transaction, which
+        is not visible on-chain, and no decoder emits relayer payments yet. Income and margins are therefore a lower
+        bound, not relayer earnings. Medians need at least 3 unshields on a chain that day.
+      </p>
+
+      <h4>Median Relayer Margin per Unshield (USD, lower bound)</h4>
+      <div class="chart-container">
+        <canvas id="relayerMarginChart"></canvas>
+      </div>
+      <h4>Median Gas Cost per Unshield (USD)</h4>
+      <div class="chart-container">
+        <canvas id="relayerGasCostChart"></canvas>
+      </div>
+      <script
+        id="relayer-gas-data"
+        type="application/json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(gasCharts) }}
+      />
+      <script dangerouslySetInnerHTML={{ __html: `
+        (function() {
+          const data = JSON.parse(document.getElementById('relayer-gas-data').textContent);
+          const colors = ['#a371f7', '#56d364', '#ffa657', '#58a6ff'];
+          const draw = (id, chart) => new Chart(document.getElementById(id).getContext('2d'), {
+            type: 'line',
+            data: {
+              labels: chart.labels,
+              datasets: chart.series.map((s, i) => ({
+                label: s.label,
+                data: s.values,
+                borderColor: colors[i % colors.length],
+                backgroundColor: 'transparent',
+                borderWidth: 2,
+                tension: 0.2,
+                pointRadius: 0,
+                pointHoverRadius: 4
+              }))
+            },
+            options: {
+              responsive: true,
+              maintainAspectRatio: false,
+              plugins: { legend: { labels: { color: '#e6edf3' } } },
+              scales: {
+                x: { ticks: { color: '#7d8590' }, grid: { color: '#30363d', lineWidth: 0.5 } },
+                y: { ticks: { color: '#7d8590', callback: v => '$' + v.toLocaleString() }, grid: { color: '#30363d', lineWidth: 0.5 } }
+              }
+            }
+          });
+          draw('relayerMarginChart', data.margin);
+          draw('relayerGasCostChart', data.gasCost);
+        })();
+      `}} />
+
       <table id="relayers-table">
         <thead>
           <tr><th>Date</th><th>Active Relayers</th><th>Top 5 Share</th><th>HHI</th><th>Tx Count</th></tr>
@@ -943,96 +1138,536 @@ app.get('/relayers', async (c) => {
   );
 });
 
-// GET /status - Indexer status (JSON)
-app.get('/status', async (c) => {
-  // Ethereum stats
-  const lastBlockEth = await db.select()
-    .from(schema.metadata)
-    .where(eq(schema.metadata.key, 'last_indexed_block_eth'))
-    .get();
+// GET /nfts - Aggregate NFT (ERC-721 / ERC-1155) activity
+app.get('/nfts', async (c) => {
+  const chain = getChainFromQuery(c);
+  const filters = getFiltersFromQuery(c);
 
-  const ethEventCount = await db.select({
-    count: sql<number>`count(*)`,
-  }).from(schema.events)
-    .where(eq(schema.events.chain, 'ethereum'))
-    .get();
+  const conditions = [];
+  if (chain !== 'all') {
+    conditions.push(eq(schema.nftActivityDaily.chain, chain));
+  }
+  if (filters.startDate) {
+    conditions.push(gte(schema.nftActivityDaily.date, filters.startDate));
+  }
+  if (filters.endDate) {
+    conditions.push(lte(schema.nftActivityDaily.date, filters.endDate));
+  }
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+  // Collection totals, built only from buckets that passed the privacy threshold
+  const collections = await db.select({
+    chain: schema.tokens.chain,
+    symbol: schema.tokens.symbol,
+    address: schema.tokens.address,
+    tokenStandard: schema.tokens.tokenStandard,
+    shieldCount: sql<number>`sum(${schema.nftActivityDaily.shieldCount})`,
+    unshieldCount: sql<number>`sum(${schema.nftActivityDaily.unshieldCount})`,
+  })
+    .from(schema.nftActivityDaily)
+    .innerJoin(schema.tokens, eq(schema.tokens.id, schema.nftActivityDaily.tokenId))
+    .where(where)
+    .groupBy(schema.tokens.id)
+    .orderBy(desc(sql`sum(${schema.nftActivityDaily.shieldCount} + ${schema.nftActivityDaily.unshieldCount})`));
+
+  const daily = await db.select({
+    date: schema.nftActivityDaily.date,
+    collections: sql<number>`count(distinct ${schema.nftActivityDaily.tokenId})`,
+    shieldCount: sql<number>`sum(${schema.nftActivityDaily.shieldCount})`,
+    unshieldCount: sql<number>`sum(${schema.nftActivityDaily.unshieldCount})`,
+  })
+    .from(schema.nftActivityDaily)
+    .where(where)
+    .groupBy(schema.nftActivityDaily.date)
+    .orderBy(desc(schema.nftActivityDaily.date));
+
+  return c.render(
+    <section>
+      <h2>NFT Activity <span class="chain-badge">{getChainLabel(chain)}</span></h2>
+      <p><em>Collection-level counts only. Individual token IDs are never shown, and a collection's day is hidden until it has at least 3 shields + unshields.</em></p>
+
+      <FilterBar
+        chain={chain}
+        filters={filters}
+        basePath="/nfts"
+      />
+
+      <h3>Collections</h3>
+      <table id="nft-collections-table">
+        <thead>
+          <tr><th>Collection</th><th>Standard</th><th>Chain</th><th>Shields</th><th>Unshields</th></tr>
+        </thead>
+        <tbody>
+          {collections.length === 0 ? (
+            <tr><td colSpan={5}>No NFT activity above the privacy threshold.</td></tr>
+          ) : (
+            collections.map((row, idx) => (
+              <tr data-row={idx}>
+                <td>{row.symbol || `${row.address.slice(0, 8)}...`}</td>
+                <td>{row.tokenStandard.toUpperCase()}</td>
+                <td>{row.chain}</td>
+                <td>{row.shieldCount}</td>
+                <td>{row.unshieldCount}</td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+      <ClientPagination tableId="nft-collections-table" defaultLimit={20} />
+      <script dangerouslySetInnerHTML={{ __html: `initPaginator('nft-collections-table', 20);` }} />
+
+      <h3>Daily Activity</h3>
+      <table id="nft-daily-table">
+        <thead>
+          <tr><th>Date</th><th>Collections</th><th>Shields</th><th>Unshields</th></tr>
+        </thead>
+        <tbody>
+          {daily.length === 0 ? (
+            <tr><td colSpan={4}>No data found for the selected filters.</td></tr>
+          ) : (
+            daily.map((row, idx) => (
+              <tr data-row={idx}>
+                <td>{row.date}</td>
+                <td>{row.collections}</td>
+                <td>{row.shieldCount}</td>
+                <td>{row.unshieldCount}</td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+      <ClientPagination tableId="nft-daily-table" defaultLimit={20} />
+      <script dangerouslySetInnerHTML={{ __html: `initPaginator('nft-daily-table', 20);` }} />
+    </section>
+  );
+});
+
+// GET /fees - Protocol fee income (shield + unshield fees)
+app.get('/fees', async (c) => {
+  const chain = getChainFromQuery(c);
+  const filters = getFiltersFromQuery(c);
+
+  const conditions = [];
+  if (chain !== 'all') {
+    conditions.push(eq(schema.protocolFeeRevenueDaily.chain, chain));
+  }
+  if (filters.startDate) {
+    conditions.push(gte(schema.protocolFeeRevenueDaily.date, filters.startDate));
+  }
+  if (filters.endDate) {
+    conditions.push(lte(schema.protocolFeeRevenueDaily.date, filters.endDate));
+  }
+  if (filters.tokenId) {
+    conditions.push(eq(schema.protocolFeeRevenueDaily.tokenId, filters.tokenId));
+  } else {
+    const visible = visibleTokenCondition(schema.protocolFeeRevenueDaily.tokenId, filters.tokenVisibility);
+    if (visible) conditions.push(visible);
+  }
 
-  const latestEthEvent = await db.select({
-    blockNumber: schema.events.blockNumber,
-    blockTimestamp: schema.events.blockTimestamp,
+  // Tokens that have earned fees, for the filter dropdown
+  const feeTokenRows = await db.select({
+    id: schema.tokens.id,
+    symbol: schema.tokens.symbol,
+    verification: schema.tokens.verification,
   })
-    .from(schema.events)
-    .where(eq(schema.events.chain, 'ethereum'))
-    .orderBy(desc(schema.events.blockNumber))
-    .limit(1)
-    .get();
+    .from(schema.tokens)
+    .innerJoin(schema.protocolFeeRevenueDaily, eq(schema.protocolFeeRevenueDaily.tokenId, schema.tokens.id))
+    .where(chain !== 'all' ? eq(schema.tokens.chain, chain) : undefined)
+    .groupBy(schema.tokens.id)
+    .orderBy(desc(sql`sum(${schema.protocolFeeRevenueDaily.totalFeeUsd})`));
+  const feeTokens = feeTokenRows.filter(t => isTokenVisible(t.verification, filters.tokenVisibility) || t.id === filters.tokenId);
+
+  const rows = await db.select({
+    date: schema.protocolFeeRevenueDaily.date,
+    chain: schema.protocolFeeRevenueDaily.chain,
+    symbol: schema.tokens.symbol,
+    shieldFees: sql<number>`sum(case when ${schema.protocolFeeRevenueDaily.feeType} = 'shield' then ${schema.protocolFeeRevenueDaily.totalFeeNormalized} else 0 end)`,
+    unshieldFees: sql<number>`sum(case when ${schema.protocolFeeRevenueDaily.feeType} = 'unshield' then ${schema.protocolFeeRevenueDaily.totalFeeNormalized} else 0 end)`,
+    totalFeeUsd: sql<number | null>`sum(${schema.protocolFeeRevenueDaily.totalFeeUsd})`,
+  })
+    .from(schema.protocolFeeRevenueDaily)
+    .innerJoin(schema.tokens, eq(schema.tokens.id, schema.protocolFeeRevenueDaily.tokenId))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .groupBy(schema.protocolFeeRevenueDaily.date, schema.protocolFeeRevenueDaily.chain, schema.protocolFeeRevenueDaily.tokenId)
+    .orderBy(desc(schema.protocolFeeRevenueDaily.date), desc(sql`sum(${schema.protocolFeeRevenueDaily.totalFeeUsd})`));
+
+  const feesOverTime = await getProtocolFeeRevenueOverTime({
+    chain,
+    startDate: filters.startDate ?? undefined,
+    endDate: filters.endDate ?? undefined,
+    tokenId: filters.tokenId,
+    tokenVisibility: filters.tokenVisibility,
+  });
+  const totalShieldUsd = feesOverTime.reduce((sum, d) => sum + d.shieldFeesUsd, 0);
+  const totalUnshieldUsd = feesOverTime.reduce((sum, d) => sum + d.unshieldFeesUsd, 0);
+
+  // One stacked series per chain with fee income
+  const feeChart = alignChainSeries(
+    CHAIN_NAMES
+      .filter(name => feesOverTime.some(d => d.chain === name))
+      .map(name => ({
+        chain: name,
+        points: feesOverTime
+          .filter(d => d.chain === name)
+          .map(d => ({ date: d.date, value: d.shieldFeesUsd + d.unshieldFeesUsd })),
+      }))
+  );
 
-  const ethTokenCount = await db.select({
-    count: sql<number>`count(*)`,
-  }).from(schema.tokens)
-    .where(eq(schema.tokens.chain, 'ethereum'))
-    .get();
+  const formatUsd = (v: number) =>
+    `$${v.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  const formatTokens = (v: number) =>
+    v.toLocaleString('en-US', { maximumFractionDigits: 6 });
 
-  // Polygon stats
-  const lastBlockPolygon = await db.select()
-    .from(schema.metadata)
-    .where(eq(schema.metadata.key, 'last_indexed_block_polygon'))
-    .get();
+  return c.render(
+    <section>
+      <h2>Protocol Fee Income <span class="chain-badge">{getChainLabel(chain)}</span></h2>
+      <p><em>Shield and unshield fees paid to the Railgun treasury. Relayer compensation is paid inside the pool and is not included.</em></p>
+
+      <FilterBar
+        chain={chain}
+        filters={filters}
+        basePath="/fees"
+        showTokenFilter={true}
+        showTokenVisibilityFilter={true}
+        tokens={feeTokens}
+      />
+
+      <p>
+        Shield fees: <strong>{formatUsd(totalShieldUsd)}</strong> &middot;
+        Unshield fees: <strong>{formatUsd(totalUnshieldUsd)}</strong> &middot;
+        Total: <strong>{formatUsd(totalShieldUsd + totalUnshieldUsd)}</strong>
+        <span class="muted"> (priced days only)</span>
+      </p>
+
+      <div class="chart-container">
+        <canvas id="protocolFeesChart"></canvas>
+      </div>
+      <script
+        id="protocol-fees-data"
+        type="application/json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(feeChart) }}
+      />
+      <script dangerouslySetInnerHTML={{ __html: `
+        (function() {
+          const data = JSON.parse(document.getElementById('protocol-fees-data').textContent);
+          const colors = ['#a371f7', '#56d364', '#ffa657', '#58a6ff'];
+          new Chart(document.getElementById('protocolFeesChart').getContext('2d'), {
+            type: 'bar',
+            data: {
+              labels: data.labels,
+              datasets: data.series.map((s, i) => ({
+                label: s.label + ' (USD)',
+                data: s.values,
+                backgroundColor: colors[i % colors.length]
+              }))
+            },
+            options: {
+              responsive: true,
+              maintainAspectRatio: false,
+              plugins: { legend: { labels: { color: '#e6edf3' } } },
+              scales: {
+                x: { stacked: true, ticks: { color: '#7d8590' }, grid: { color: '#30363d', lineWidth: 0.5 } },
+                y: { stacked: true, beginAtZero: true, ticks: { color: '#7d8590', callback: v => '$' + v.toLocaleString() }, grid: { color: '#30363d', lineWidth: 0.5 } }
+              }
+            }
+          });
+        })();
+      `}} />
 
-  const polygonEventCount = await db.select({
+      <table id="fees-table">
+        <thead>
+          <tr><th>Date</th><th>Chain</th><th>Token</th><th>Shield Fees</th><th>Unshield Fees</th><th>Total (USD)</th></tr>
+        </thead>
+        <tbody>
+          {rows.length === 0 ? (
+            <tr><td colSpan={6}>No data found for the selected filters.</td></tr>
+          ) : (
+            rows.map((row, idx) => (
+              <tr data-row={idx}>
+                <td>{row.date}</td>
+                <td>{row.chain}</td>
+                <td>{row.symbol || 'Unknown'}</td>
+                <td>{formatTokens(row.shieldFees || 0)}</td>
+                <td>{formatTokens(row.unshieldFees || 0)}</td>
+                <td>{row.totalFeeUsd != null ? formatUsd(row.totalFeeUsd) : <span class="muted">—</span>}</td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+      <ClientPagination tableId="fees-table" defaultLimit={20} />
+      <script dangerouslySetInnerHTML={{ __html: `initPaginator('fees-table', 20);` }} />
+    </section>
+  );
+});
+
+// GET /status - Indexer status (JSON)
+app.get('/status', async (c) => {
+  // Reorg history and dates awaiting re-aggregation, per chain
+  const reorgRows = await db.select({
+    chain: schema.reorgs.chain,
     count: sql<number>`count(*)`,
-  }).from(schema.events)
-    .where(eq(schema.events.chain, 'polygon'))
-    .get();
+    maxDepth: sql<number>`max(${schema.reorgs.depth})`,
+    eventsRemoved: sql<number>`sum(${schema.reorgs.eventsRemoved})`,
+    lastDetectedAt: sql<number>`max(${schema.reorgs.detectedAt})`,
+  })
+    .from(schema.reorgs)
+    .groupBy(schema.reorgs.chain);
 
-  const latestPolygonEvent = await db.select({
-    blockNumber: schema.events.blockNumber,
-    blockTimestamp: schema.events.blockTimestamp,
+  const dirtyDateRows = await db.select({
+    chain: schema.dirtyDates.chain,
+    count: sql<number>`count(*)`,
   })
-    .from(schema.events)
-    .where(eq(schema.events.chain, 'polygon'))
-    .orderBy(desc(schema.events.blockNumber))
-    .limit(1)
-    .get();
+    .from(schema.dirtyDates)
+    .groupBy(schema.dirtyDates.chain);
 
-  const polygonTokenCount = await db.select({
+  // Quarantined logs per chain and topic0 (logs no decoder produced an event for)
+  const undecodedRows = await db.select({
+    chain: schema.undecodedLogs.chain,
+    topic0: schema.undecodedLogs.topic0,
     count: sql<number>`count(*)`,
-  }).from(schema.tokens)
-    .where(eq(schema.tokens.chain, 'polygon'))
-    .get();
+    firstBlock: sql<number>`min(${schema.undecodedLogs.blockNumber})`,
+    lastBlock: sql<number>`max(${schema.undecodedLogs.blockNumber})`,
+  })
+    .from(schema.undecodedLogs)
+    .groupBy(schema.undecodedLogs.chain, schema.undecodedLogs.topic0)
+    .orderBy(desc(sql`count(*)`));
 
-  return c.json({
-    status: 'ok',
-    indexers: {
-      ethereum: {
-        lastIndexedBlock: lastBlockEth?.value ? parseInt(lastBlockEth.value) : null,
-        totalEvents: ethEventCount?.count || 0,
-        totalTokens: ethTokenCount?.count || 0,
-        latestEventBlock: latestEthEvent?.blockNumber || null,
-        latestEventTime: latestEthEvent?.blockTimestamp
-          ? new Date(latestEthEvent.blockTimestamp * 1000).toISOString()
+  // ERC-20s whose metadata is still incomplete, and what the last refresh job run did
+  const incompleteTokenRows = await db.select({
+    chain: schema.tokens.chain,
+    count: sql<number>`count(*)`,
+  })
+    .from(schema.tokens)
+    .where(and(
+      eq(schema.tokens.tokenStandard, 'erc20'),
+      or(isNull(schema.tokens.decimals), isNull(schema.tokens.symbol), isNotNull(schema.tokens.metadataError))
+    ))
+    .groupBy(schema.tokens.chain);
+  const tokenRefreshRow = await db.select()
+    .from(schema.metadata)
+    .where(eq(schema.metadata.key, TOKEN_REFRESH_STATUS_KEY))
+    .get();
+  const lastTokenRefresh: Record<string, TokenRefreshSummary> = tokenRefreshRow?.value ? JSON.parse(tokenRefreshRow.value) : {};
+
+  // Commitment trees per chain: when each started and how full it is
+  const treeRows = await db.select({
+    chain: schema.commitmentTreeDaily.chain,
+    treeNumber: schema.commitmentTreeDaily.treeNumber,
+    startedOn: sql<string>`min(${schema.commitmentTreeDaily.date})`,
+    leaves: sql<number>`max(${schema.commitmentTreeDaily.leaves})`,
+  })
+    .from(schema.commitmentTreeDaily)
+    .groupBy(schema.commitmentTreeDaily.chain, schema.commitmentTreeDaily.treeNumber)
+    .orderBy(schema.commitmentTreeDaily.treeNumber);
+
+  // Endpoint health as last saved by each indexer process
+  const rpcEndpointRows = await db.select()
+    .from(schema.rpcEndpoints)
+    .orderBy(schema.rpcEndpoints.chain, schema.rpcEndpoints.endpointIndex);
+  const nowMs = Date.now();
+
+  const indexers: Record<string, unknown> = {};
+
+  for (const name of CHAIN_NAMES) {
+    const chainConfig = CHAINS[name];
+
+    const lastBlock = await db.select()
+      .from(schema.metadata)
+      .where(eq(schema.metadata.key, chainConfig.cursorKey))
+      .get();
+
+    const eventCount = await db.select({
+      count: sql<number>`count(*)`,
+    }).from(schema.events)
+      .where(eq(schema.events.chain, name))
+      .get();
+
+    const latestEvent = await db.select({
+      blockNumber: schema.events.blockNumber,
+      blockTimestamp: schema.events.blockTimestamp,
+    })
+      .from(schema.events)
+      .where(eq(schema.events.chain, name))
+      .orderBy(desc(schema.events.blockNumber))
+      .limit(1)
+      .get();
+
+    const tokenCount = await db.select({
+      count: sql<number>`count(*)`,
+    }).from(schema.tokens)
+      .where(eq(schema.tokens.chain, name))
+      .get();
+
+    const reorgRow = reorgRows.find(r => r.chain === name);
+    const tokenRefresh = lastTokenRefresh[name];
+
+    indexers[name] = {
+      lastIndexedBlock: lastBlock?.value ? parseInt(lastBlock.value) : null,
+      totalEvents: eventCount?.count || 0,
+      totalTokens: tokenCount?.count || 0,
+      latestEventBlock: latestEvent?.blockNumber || null,
+      latestEventTime: latestEvent?.blockTimestamp
+        ? new Date(latestEvent.blockTimestamp * 1000).toISOString()
+        : null,
+      reorgs: {
+        count: reorgRow?.count || 0,
+        maxDepth: reorgRow?.maxDepth || 0,
+        eventsRemoved: reorgRow?.eventsRemoved || 0,
+        lastDetectedAt: reorgRow?.lastDetectedAt
+          ? new Date(reorgRow.lastDetectedAt * 1000).toISOString()
           : null,
+        pendingDirtyDates: dirtyDateRows.find(r => r.chain === name)?.count || 0,
       },
-      polygon: {
-        lastIndexedBlock: lastBlockPolygon?.value ? parseInt(lastBlockPolygon.value) : null,
-        totalEvents: polygonEventCount?.count || 0,
-        totalTokens: polygonTokenCount?.count || 0,
-        latestEventBlock: latestPolygonEvent?.blockNumber || null,
-        latestEventTime: latestPolygonEvent?.blockTimestamp
-          ? new Date(latestPolygonEvent.blockTimestamp * 1000).toISOString()
+      tokenMetadata: {
+        incompleteTokens: incompleteTokenRows.find(r => r.chain === name)?.count || 0,
+        lastRefresh: tokenRefresh
+          ? { ...tokenRefresh, ranAt: new Date(tokenRefresh.ranAt * 1000).toISOString() }
           : null,
       },
-    },
+      commitmentTrees: treeRows.filter(r => r.chain === name).map(r => ({
+        treeNumber: r.treeNumber,
+        startedOn: r.startedOn,
+        leaves: r.leaves,
+      })),
+      undecodedLogs: undecodedRows.filter(r => r.chain === name).map(r => ({
+        topic0: r.topic0,
+        count: r.count,
+        firstBlock: r.firstBlock,
+        lastBlock: r.lastBlock,
+      })),
+      rpcEndpoints: rpcEndpointRows.filter(r => r.chain === name).map(r => ({
+        url: r.url,
+        status: r.consistent === false ? 'inconsistent'
+          : r.coolingDownUntil && r.coolingDownUntil > nowMs ? 'cooling_down'
+          : 'ok',
+        latencyMs: r.latencyMs !== null ? Math.round(r.latencyMs) : null,
+        errorRate: Number(r.errorRate.toFixed(3)),
+        requests: r.requestCount,
+        errors: r.errorCount,
+        rateLimited: r.rateLimitCount,
+        timeouts: r.timeoutCount,
+        consistent: r.consistent,
+        lastError: r.lastError,
+        updatedAt: new Date(r.updatedAt * 1000).toISOString(),
+      })),
+    };
+  }
+
+  return c.json({
+    status: 'ok',
+    indexers,
   });
 });
 
+// GET /metrics - Prometheus text format: indexers, RPC, analytics jobs, HTTP
+app.get('/metrics', async (c) => {
+  return c.text(await renderMetrics(), 200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+});
+
+// GET /admin/jobs - Analytics job graph and the scheduler's recent runs
+app.get('/admin/jobs', async (c) => {
+  // Latest attempt and latest success of every job that has run
+  const latestRuns = await db.select()
+    .from(schema.jobRuns)
+    .where(sql`${schema.jobRuns.id} in (select max(${schema.jobRuns.id}) from ${schema.jobRuns} group by ${schema.jobRuns.job})`);
+  const lastSuccesses = await db.select({
+    job: schema.jobRuns.job,
+    startedAt: sql<number>`max(${schema.jobRuns.startedAt})`,
+  })
+    .from(schema.jobRuns)
+    .where(eq(schema.jobRuns.status, 'success'))
+    .groupBy(schema.jobRuns.job);
+
+  const recentRuns = await db.select()
+    .from(schema.jobRuns)
+    .orderBy(desc(schema.jobRuns.id))
+    .limit(JOB_RUNS_SHOWN);
+
+  const formatTime = (unixSeconds: number) =>
+    new Date(unixSeconds * 1000).toISOString().replace('T', ' ').slice(0, 19);
+  const formatDuration = (ms: number | null) =>
+    ms === null ? '—' : ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+  const statusClass = (status: string) =>
+    status === 'success' ? 'job-ok' : status === 'skipped' || status === 'running' ? 'history-warning' : 'job-failed';
+  // First line only; the rest of a multi-line message (viem's, for one) is one click away
+  const ErrorCell = ({ error }: { error: string | null }) =>
+    error === null ? <td class="muted">—</td>
+    : !error.includes('\n') ? <td>{error}</td>
+    : <td><details><summary>{error.split('\n')[0]}</summary><pre class="job-error">{error}</pre></details></td>;
+
+  return c.render(
+    <section>
+      <h2>Analytics Jobs</h2>
+      <p>
+        <em>
+          start-all.ts runs these every few minutes, one at a time, each after the jobs it depends on. Per-date jobs
+          only run while indexed dates are waiting to be re-aggregated. Runs are kept for {JOB_RUN_RETENTION_DAYS} days.
+        </em>
+      </p>
+
+      <h3>Jobs</h3>
+      <table id="jobs-table">
+        <thead>
+          <tr><th>Job</th><th>Depends on</th><th>Last status</th><th>Last run (UTC)</th><th>Duration</th><th>Rows</th><th>Last success (UTC)</th><th>Error</th></tr>
+        </thead>
+        <tbody>
+          {orderJobs(JOBS).map(job => {
+            const latest = latestRuns.find(r => r.job === job.name);
+            const lastSuccess = lastSuccesses.find(r => r.job === job.name);
+            return (
+              <tr>
+                <td><strong>{job.name}</strong><br /><span class="muted">{job.description}</span></td>
+                <td>{job.dependsOn.length > 0 ? job.dependsOn.join(', ') : <span class="muted">—</span>}</td>
+                <td>{latest ? <span class={statusClass(latest.status)}>{latest.status}</span> : <span class="muted">never run</span>}</td>
+                <td>{latest ? formatTime(latest.startedAt) : '—'}</td>
+                <td>{formatDuration(latest?.durationMs ?? null)}</td>
+                <td>{latest?.rowCount?.toLocaleString('en-US') ?? '—'}</td>
+                <td>{lastSuccess ? formatTime(lastSuccess.startedAt) : '—'}</td>
+                <ErrorCell error={latest?.status === 'success' ? null : latest?.error ?? null} />
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <h3>Recent Runs</h3>
+      <table id="job-runs-table">
+        <thead>
+          <tr><th>Started (UTC)</th><th>Job</th><th>Attempt</th><th>Status</th><th>Scope</th><th>Duration</th><th>Rows</th><th>Error</th></tr>
+        </thead>
+        <tbody>
+          {recentRuns.length === 0 ? (
+            <tr><td colSpan={8}>No job has run yet.</td></tr>
+          ) : (
+            recentRuns.map((run, idx) => (
+              <tr data-row={idx}>
+                <td>{formatTime(run.startedAt)}</td>
+                <td>{run.job}</td>
+                <td>{run.status === 'skipped' ? '—' : run.attempt}</td>
+                <td><span class={statusClass(run.status)}>{run.status}</span></td>
+                <td>{run.scope ?? '—'}</td>
+                <td>{formatDuration(run.durationMs)}</td>
+                <td>{run.rowCount?.toLocaleString('en-US') ?? '—'}</td>
+                <ErrorCell error={run.error} />
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+      <ClientPagination tableId="job-runs-table" defaultLimit={50} />
+      <script dangerouslySetInnerHTML={{ __html: `initPaginator('job-runs-table', 50);` }} />
+    </section>
+  );
+});
+
 // GET /ethics - Ethics page
 app.get('/ethics', (c) => {
   return c.render(
     <section>
       <h2>Ethics &amp; Limitations</h2>
       <h3>Data Sources</h3>
-      <p>This dashboard indexes only public on-chain events from Railgun smart contracts on Ethereum mainnet and Polygon.</p>
+      <p>This dashboard indexes only public on-chain events from Railgun smart contracts on {CHAIN_NAMES.map(name => CHAINS[name].label).join(', ')}.</p>
 
       <h3>What We Do NOT Do</h3>
       <ul>
@@ -1404,6 +2039,22 @@ function renderHeatmapTable(data: Array<{ hour: number; dayOfWeek: number; txCou
   );
 }
 
+// Aligns per-chain time series onto one sorted date axis (null where a chain has no data)
+function alignChainSeries(seriesByChain: Array<{ chain: SupportedChain; points: Array<{ date: string; value: number }> }>) {
+  const labels = [...new Set(seriesByChain.flatMap(s => s.points.map(p => p.date)))].sort();
+  return {
+    labels,
+    series: seriesByChain.map(s => {
+      const byDate = new Map(s.points.map(p => [p.date, p.value]));
+      return {
+        chain: s.chain,
+        label: CHAINS[s.chain].label,
+        values: labels.map(date => byDate.get(date) ?? null),
+      };
+    }),
+  };
+}
+
 // GET /charts - Charts dashboard with Chart.js
 app.get('/charts', async (c) => {
   const chain = getChainFromQuery(c);
@@ -1416,18 +2067,20 @@ app.get('/charts', async (c) => {
   const tokenBStr = c.req.query('tokenB');
   const tokenA = tokenAStr ? parseInt(tokenAStr) : null;
   const tokenB = tokenBStr ? parseInt(tokenBStr) : null;
+  const tokenVisibility = parseTokenVisibility(c.req.query('tokenVisibility'));
 
   // Convert time range to dates
   const dateRange = getDateRangeFromTimeRange(timeRange);
   const commonParams = { chain, ...dateRange };
-  const tokenParams = { ...commonParams, tokenId };
+  const tokenParams = { ...commonParams, tokenId, tokenVisibility };
 
   // Fetch tokens for dropdowns with chain info, ordered by event count (relevance)
-  const allTokensRaw = chain === 'all'
+  const tokenRows = chain === 'all'
     ? await db.select({
         id: schema.tokens.id,
         symbol: schema.tokens.symbol,
         chain: schema.tokens.chain,
+        verification: schema.tokens.verification,
       })
         .from(schema.tokens)
         .leftJoin(schema.events, eq(schema.events.tokenId, schema.tokens.id))
@@ -1437,16 +2090,23 @@ app.get('/charts', async (c) => {
         id: schema.tokens.id,
         symbol: schema.tokens.symbol,
         chain: schema.tokens.chain,
+        verification: schema.tokens.verification,
       })
         .from(schema.tokens)
         .leftJoin(schema.events, and(eq(schema.events.tokenId, schema.tokens.id), eq(schema.events.chain, chain)))
         .where(eq(schema.tokens.chain, chain))
         .groupBy(schema.tokens.id)
         .orderBy(desc(sql`COUNT(${schema.events.id})`));
+  // Tokens already picked in the URL stay selectable whatever their status
+  const allTokensRaw = tokenRows.filter(t =>
+    isTokenVisible(t.verification, tokenVisibility) || t.id === tokenId || t.id === tokenA || t.id === tokenB
+  );
 
   // Helper to format token display name
   const formatToken = (t: { symbol: string | null; chain: string }) =>
     `${t.symbol || 'Unknown'} (${t.chain})`;
+  const formatUsd = (v: number) =>
+    `$${v.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 
   // Default tokenA to first token if not specified
   const defaultTokenA = tokenA || allTokensRaw[0]?.id || null;
@@ -1461,16 +2121,10 @@ app.get('/charts', async (c) => {
     getRelayerHHIOverTime(commonParams),
     getHourlyActivityHeatmap(commonParams),
     getActivityIntensityOverTime(tokenParams),
-    getTopTokensByVolume({ ...commonParams, limit: 10 }),
-    getTopTokensByTransactionCount({ ...commonParams, limit: 10 }),
+    getTopTokensByVolume({ ...commonParams, limit: 10, tokenVisibility }),
+    getTopTokensByTransactionCount({ ...commonParams, limit: 10, tokenVisibility }),
     getTokenDiversityOverTime(commonParams),
-    // Chain comparison: fetch both ethereum and polygon for these charts
-    getActiveRelayersOverTime({ ...commonParams, chain: 'ethereum' }),
-    getActiveRelayersOverTime({ ...commonParams, chain: 'polygon' }),
-    getTop5RelayerShareOverTime({ ...commonParams, chain: 'ethereum' }),
-    getTop5RelayerShareOverTime({ ...commonParams, chain: 'polygon' }),
-    getNetFlowOverTime({ ...tokenParams, chain: 'ethereum' }),
-    getNetFlowOverTime({ ...tokenParams, chain: 'polygon' }),
+    getPrivateActivityOverTime(commonParams),
   ];
 
   // Add Token B data if comparing
@@ -1482,6 +2136,56 @@ app.get('/charts', async (c) => {
     );
   }
 
+  // Chain comparison: fetch every indexed chain for these charts
+  const [activeRelayersByChain, top5ShareByChain, netFlowByChain, anonymitySetByChain] = await Promise.all([
+    Promise.all(CHAIN_NAMES.map(async name => ({ chain: name, points: await getActiveRelayersOverTime({ ...commonParams, chain: name }) }))),
+    Promise.all(CHAIN_NAMES.map(async name => ({ chain: name, points: await getTop5RelayerShareOverTime({ ...commonParams, chain: name }) }))),
+    Promise.all(CHAIN_NAMES.map(async name => ({ chain: name, points: await getNetFlowOverTime({ ...tokenParams, chain: name }) }))),
+    Promise.all(CHAIN_NAMES.map(async name => ({ chain: name, points: await getAnonymitySetOverTime({ ...commonParams, chain: name }) }))),
+  ]);
+
+  // Commitment trees of the selected chain(s), one line per tree
+  const treeGrowth = await getCommitmentTreeGrowth(commonParams);
+  const treeLabels = [...new Set(treeGrowth.map(p => p.date))].sort();
+  const treeSeries = new Map<string, { label: string; byDate: Map<string, number> }>();
+  for (const p of treeGrowth) {
+    const key = `${p.chain}:${p.treeNumber}`;
+    if (!treeSeries.has(key)) {
+      const chainLabel = isSupportedChain(p.chain) ? CHAINS[p.chain].label : p.chain;
+      treeSeries.set(key, { label: `${chainLabel} tree ${p.treeNumber}`, byDate: new Map() });
+    }
+    treeSeries.get(key)!.byDate.set(p.date, p.leaves);
+  }
+
+  // Shielded TVL of the selected chain(s): the latest total, and the largest tokens stacked
+  const shieldedTvl = await getShieldedTvlOverTime(tokenParams);
+  const tvlLabels = [...new Set(shieldedTvl.map(p => p.date))];
+  const latestTvlDate = tvlLabels[tvlLabels.length - 1] ?? null;
+  const latestTvl = shieldedTvl.filter(p => p.date === latestTvlDate);
+  const totalTvlUsd = latestTvl.reduce((sum, p) => sum + p.valueUsd, 0);
+  const overdrawnTokens = latestTvl.filter(p => p.balance < 0).length;
+  const topTvlTokens = latestTvl
+    .filter(p => p.valueUsd > 0)
+    .sort((a, b) => b.valueUsd - a.valueUsd)
+    .slice(0, TVL_CHART_TOKENS);
+  const topTvlKeys = new Set(topTvlTokens.map(p => `${p.chain}:${p.tokenId}`));
+  const tvlByDate = new Map<string, Map<string, number>>();
+  for (const p of shieldedTvl) {
+    const key = topTvlKeys.has(`${p.chain}:${p.tokenId}`) ? `${p.chain}:${p.tokenId}` : 'other';
+    if (!tvlByDate.has(p.date)) tvlByDate.set(p.date, new Map());
+    const byKey = tvlByDate.get(p.date)!;
+    byKey.set(key, (byKey.get(key) ?? 0) + p.valueUsd);
+  }
+  const tvlSeries = topTvlTokens.map(p => ({ key: `${p.chain}:${p.tokenId}`, label: formatToken(p) }));
+  if (shieldedTvl.some(p => p.valueUsd > 0 && !topTvlKeys.has(`${p.chain}:${p.tokenId}`))) {
+    tvlSeries.push({ key: 'other', label: 'Other' });
+  }
+
+  // Chains indexed from after their contracts were deployed miss the balances shielded before
+  const tvlHistoryGaps = (chain === 'all' ? CHAIN_NAMES : [chain])
+    .map(name => CHAINS[name])
+    .filter(cfg => cfg.startBlock > cfg.deploymentBlock);
+
   const results = await Promise.all(fetchPromises);
 
   const meanDepositsA = results[0] as Awaited<ReturnType<typeof getMeanDepositAmountsOverTime>>;
@@ -1493,15 +2197,10 @@ app.get('/charts', async (c) => {
   const topTokens = results[6] as Awaited<ReturnType<typeof getTopTokensByVolume>>;
   const topTokensByTxCount = results[7] as Awaited<ReturnType<typeof getTopTokensByTransactionCount>>;
   const tokenDiversity = results[8] as Awaited<ReturnType<typeof getTokenDiversityOverTime>>;
-  const activeRelayersEth = results[9] as Awaited<ReturnType<typeof getActiveRelayersOverTime>>;
-  const activeRelayersPolygon = results[10] as Awaited<ReturnType<typeof getActiveRelayersOverTime>>;
-  const top5RelayerShareEth = results[11] as Awaited<ReturnType<typeof getTop5RelayerShareOverTime>>;
-  const top5RelayerSharePolygon = results[12] as Awaited<ReturnType<typeof getTop5RelayerShareOverTime>>;
-  const netFlowEth = results[13] as Awaited<ReturnType<typeof getNetFlowOverTime>>;
-  const netFlowPolygon = results[14] as Awaited<ReturnType<typeof getNetFlowOverTime>>;
-  const meanDepositsB = tokenB ? results[15] as Awaited<ReturnType<typeof getMeanDepositAmountsOverTime>> : undefined;
-  const meanWithdrawalsB = tokenB ? results[16] as Awaited<ReturnType<typeof getMeanWithdrawalAmountsOverTime>> : undefined;
-  const dailyVolumeB = tokenB ? results[17] as Awaited<ReturnType<typeof getDailyVolumeOverTime>> : undefined;
+  const privateActivity = results[9] as Awaited<ReturnType<typeof getPrivateActivityOverTime>>;
+  const meanDepositsB = tokenB ? results[10] as Awaited<ReturnType<typeof getMeanDepositAmountsOverTime>> : undefined;
+  const meanWithdrawalsB = tokenB ? results[11] as Awaited<ReturnType<typeof getMeanWithdrawalAmountsOverTime>> : undefined;
+  const dailyVolumeB = tokenB ? results[12] as Awaited<ReturnType<typeof getDailyVolumeOverTime>> : undefined;
 
   // Get token display names for chart legends
   const tokenAData = allTokensRaw.find(t => t.id === defaultTokenA);
@@ -1550,20 +2249,36 @@ app.get('/charts', async (c) => {
       labels: tokenDiversity.map(d => d.date),
       values: tokenDiversity.map(d => d.value),
     },
-    activeRelayers: {
-      labels: activeRelayersEth.map(d => d.date),
-      ethereum: activeRelayersEth.map(d => d.value),
-      polygon: activeRelayersPolygon.map(d => d.value),
+    privateActivity: {
+      labels: privateActivity.map(d => d.date),
+      shields: privateActivity.map(d => d.shields),
+      transacts: privateActivity.map(d => d.transacts),
+      unshields: privateActivity.map(d => d.unshields),
     },
-    top5Share: {
-      labels: top5RelayerShareEth.map(d => d.date),
-      ethereum: top5RelayerShareEth.map(d => d.value),
-      polygon: top5RelayerSharePolygon.map(d => d.value),
+    activeRelayers: alignChainSeries(activeRelayersByChain),
+    top5Share: alignChainSeries(top5ShareByChain),
+    netFlow: alignChainSeries(netFlowByChain),
+    anonymitySet: alignChainSeries(anonymitySetByChain.map(s => ({
+      chain: s.chain,
+      points: s.points.map(p => ({ date: p.date, value: p.anonymitySetSize })),
+    }))),
+    cumulativeCommitments: alignChainSeries(anonymitySetByChain.map(s => ({
+      chain: s.chain,
+      points: s.points.map(p => ({ date: p.date, value: p.cumulativeCommitments })),
+    }))),
+    shieldedTvl: {
+      labels: tvlLabels,
+      series: tvlSeries.map(t => ({
+        label: t.label,
+        values: tvlLabels.map(date => tvlByDate.get(date)?.get(t.key) ?? 0),
+      })),
     },
-    netFlow: {
-      labels: netFlowEth.map(d => d.date),
-      ethereum: netFlowEth.map(d => d.value),
-      polygon: netFlowPolygon.map(d => d.value),
+    treeGrowth: {
+      labels: treeLabels,
+      series: [...treeSeries.values()].map(t => ({
+        label: t.label,
+        values: treeLabels.map(date => t.byDate.get(date) ?? null),
+      })),
     },
   };
 
@@ -1587,6 +2302,15 @@ app.get('/charts', async (c) => {
             </select>
           </div>
 
+          <div class="filter-group">
+            <label for="tokenVisibility">Tokens:</label>
+            <select name="tokenVisibility" id="tokenVisibility" class="filter-select">
+              {TOKEN_VISIBILITY_OPTIONS.map(o => (
+                <option value={o.value} selected={o.value === tokenVisibility}>{o.label}</option>
+              ))}
+            </select>
+          </div>
+
           <div class="filter-group">
             <label>Token Filter:</label>
             <div class="searchable-select">
@@ -1618,7 +2342,7 @@ app.get('/charts', async (c) => {
         </form>
 
         {/* Active Filter Indicators */}
-        {(timeRange !== 'all' || tokenId) && (
+        {(timeRange !== 'all' || tokenId || tokenVisibility !== defaultTokenVisibility()) && (
           <div class="active-filters">
             {timeRange !== 'all' && (
               <span class="active-filter-tag">
@@ -1630,10 +2354,47 @@ app.get('/charts', async (c) => {
                 Token: {allTokensRaw.find(t => t.id === tokenId) ? formatToken(allTokensRaw.find(t => t.id === tokenId)!) : 'Unknown'}
               </span>
             )}
+            {tokenVisibility !== defaultTokenVisibility() && (
+              <span class="active-filter-tag">
+                Tokens: {TOKEN_VISIBILITY_OPTIONS.find(o => o.value === tokenVisibility)!.label}
+              </span>
+            )}
           </div>
         )}
       </div>
 
+      {/* Shielded Value */}
+      <h3 style="color: #e6edf3; margin-top: 2rem;">Shielded Value</h3>
+      <p>
+        Estimated shielded TVL: <strong>{formatUsd(totalTvlUsd)}</strong>
+        <span class="muted"> ({latestTvlDate ? `as of ${latestTvlDate}, ` : ''}priced tokens only)</span>
+      </p>
+      {tvlHistoryGaps.map(cfg => (
+        <p class="history-warning">
+          {cfg.label} is indexed from block {cfg.startBlock.toLocaleString('en-US')}, after its contracts were
+          deployed at block {cfg.deploymentBlock.toLocaleString('en-US')}: anything shielded before then is missing,
+          so its TVL is understated.
+        </p>
+      ))}
+      {overdrawnTokens > 0 && (
+        <p class="history-warning">
+          {overdrawnTokens} {overdrawnTokens === 1 ? 'token shows' : 'tokens show'} more withdrawn than shielded
+          (history starting after the deposits) and {overdrawnTokens === 1 ? 'counts' : 'count'} as $0.
+        </p>
+      )}
+
+      <div class="charts-grid">
+        <div class="chart-section full-width">
+          <h4>Shielded TVL by Token</h4>
+          <p class="chart-description">
+            Running sum of net flow per token, valued at the latest DeFiLlama price on or before each day. The {TVL_CHART_TOKENS} largest tokens on the latest day are stacked; the rest are grouped as Other.
+          </p>
+          <div class="chart-container">
+            <canvas id="shieldedTvlChart"></canvas>
+          </div>
+        </div>
+      </div>
+
       {/* Token Analytics */}
       <h3 style="color: #e6edf3; margin-top: 2rem;">Token Analytics</h3>
 
@@ -1679,6 +2440,7 @@ app.get('/charts', async (c) => {
             <form method="get" action="/charts" style="display: flex; gap: 1rem; align-items: flex-end; flex-wrap: wrap;">
               <input type="hidden" name="chain" value={chain} />
               <input type="hidden" name="timeRange" value={timeRange} />
+              <input type="hidden" name="tokenVisibility" value={tokenVisibility} />
               {tokenId && <input type="hidden" name="tokenId" value={tokenId} />}
 
               <div class="filter-group" style="flex: 1; min-width: 200px;">
@@ -1802,6 +2564,41 @@ app.get('/charts', async (c) => {
         </div>
       </div>
 
+      {/* Anonymity Set */}
+      <h3 style="color: #e6edf3; margin-top: 2rem;">Anonymity Set</h3>
+
+      <div class="charts-grid">
+        <div class="chart-section full-width">
+          <h4>Anonymity Set Size</h4>
+          <p class="chart-description">
+            Commitments in the tree a new deposit lands in. Spending a note proves membership in its whole tree, so this is the set the note blends into. It resets when a tree fills (65,536 leaves) and a new one starts.
+          </p>
+          <div class="chart-container">
+            <canvas id="anonymitySetChart"></canvas>
+          </div>
+        </div>
+
+        <div class="chart-section">
+          <h4>Commitment Tree Growth</h4>
+          <p class="chart-description">
+            Leaves per commitment tree over time, from the tree positions in Shield and Transact events. Each line starts on the day its tree did.
+          </p>
+          <div class="chart-container">
+            <canvas id="treeGrowthChart"></canvas>
+          </div>
+        </div>
+
+        <div class="chart-section">
+          <h4>Cumulative Commitments</h4>
+          <p class="chart-description">
+            Commitments across every tree seen, shields and private transfer outputs alike. Trees that filled before indexing started are not included.
+          </p>
+          <div class="chart-container">
+            <canvas id="cumulativeCommitmentsChart"></canvas>
+          </div>
+        </div>
+      </div>
+
       {/* Activity Patterns */}
       <h3 style="color: #e6edf3; margin-top: 2rem;">Activity Patterns</h3>
 
@@ -1825,6 +2622,16 @@ app.get('/charts', async (c) => {
             <canvas id="intensityChart"></canvas>
           </div>
         </div>
+
+        <div class="chart-section">
+          <h4>Shield / Transact / Unshield</h4>
+          <p class="chart-description">
+            Daily transactions by kind. Transacts are fully private transfers inside the pool; transactions that unshield are counted as unshields only.
+          </p>
+          <div class="chart-container">
+            <canvas id="privateActivityChart"></canvas>
+          </div>
+        </div>
       </div>
 
       {/* Embed chart data */}
@@ -2073,6 +2880,21 @@ app.get('/charts', async (c) => {
             options: { ...darkThemeOptions, scales: { ...darkThemeOptions.scales, y: { ...darkThemeOptions.scales.y, beginAtZero: true } } }
           });
 
+          // Chart 4b: Shield / Transact / Unshield (Grouped Bar Chart)
+          const ctx4b = document.getElementById('privateActivityChart').getContext('2d');
+          new Chart(ctx4b, {
+            type: 'bar',
+            data: {
+              labels: data.privateActivity.labels,
+              datasets: [
+                { label: 'Shields', data: data.privateActivity.shields, backgroundColor: '#56d364' },
+                { label: 'Transacts', data: data.privateActivity.transacts, backgroundColor: '#a371f7' },
+                { label: 'Unshields', data: data.privateActivity.unshields, backgroundColor: '#f85149' }
+              ]
+            },
+            options: { ...darkThemeOptions, scales: { ...darkThemeOptions.scales, y: { ...darkThemeOptions.scales.y, beginAtZero: true } } }
+          });
+
           // Chart 5: Top Tokens (Horizontal Bar Chart)
           const ctx5 = document.getElementById('topTokensChart').getContext('2d');
           new Chart(ctx5, {
@@ -2170,74 +2992,51 @@ app.get('/charts', async (c) => {
             options: { ...darkThemeOptions, scales: { ...darkThemeOptions.scales, y: { ...darkThemeOptions.scales.y, beginAtZero: true } } }
           });
 
+          // Chain comparison charts: first chain solid, the rest dashed
+          const chainDash = (i) => i === 0 ? [] : [5, 5 + i * 2];
+
           // Chart 8: Active Relayers Over Time (Chain Comparison)
           const ctx8 = document.getElementById('activeRelayersChart').getContext('2d');
+          const activeRelayerColors = ['#a371f7', '#56d364', '#ffa657', '#58a6ff'];
           new Chart(ctx8, {
             type: 'line',
             data: {
               labels: data.activeRelayers.labels,
-              datasets: [
-                {
-                  label: 'Ethereum (7-day avg)',
-                  data: smoothSeries(data.activeRelayers.ethereum, 7),
-                  borderColor: '#a371f7',
-                  backgroundColor: 'rgba(163, 113, 247, 0.1)',
-                  borderWidth: 2,
-                  borderDash: [],
-                  fill: false,
-                  tension: 0.4,
-                  pointRadius: 0,
-                  pointHoverRadius: 4
-                },
-                {
-                  label: 'Polygon (7-day avg)',
-                  data: smoothSeries(data.activeRelayers.polygon, 7),
-                  borderColor: '#56d364',
-                  backgroundColor: 'rgba(86, 211, 100, 0.1)',
-                  borderWidth: 2,
-                  borderDash: [5, 5],
-                  fill: false,
-                  tension: 0.4,
-                  pointRadius: 0,
-                  pointHoverRadius: 4
-                }
-              ]
+              datasets: data.activeRelayers.series.map((s, i) => ({
+                label: s.label + ' (7-day avg)',
+                data: smoothSeries(s.values, 7),
+                borderColor: activeRelayerColors[i % activeRelayerColors.length],
+                backgroundColor: 'transparent',
+                borderWidth: 2,
+                borderDash: chainDash(i),
+                fill: false,
+                tension: 0.4,
+                pointRadius: 0,
+                pointHoverRadius: 4
+              }))
             },
             options: { ...darkThemeOptions, scales: { ...darkThemeOptions.scales, y: { ...darkThemeOptions.scales.y, beginAtZero: true } } }
           });
 
           // Chart 9: Top 5 Relayer Share Over Time (Chain Comparison with Percentage)
           const ctx9 = document.getElementById('top5ShareChart').getContext('2d');
+          const top5ShareColors = ['#ffa657', '#58a6ff', '#a371f7', '#56d364'];
           new Chart(ctx9, {
             type: 'line',
             data: {
               labels: data.top5Share.labels,
-              datasets: [
-                {
-                  label: 'Ethereum (7-day avg)',
-                  data: smoothSeries(data.top5Share.ethereum, 7),
-                  borderColor: '#ffa657',
-                  backgroundColor: 'rgba(255, 166, 87, 0.1)',
-                  borderWidth: 2,
-                  borderDash: [],
-                  fill: false,
-                  tension: 0.4,
-                  pointRadius: 0,
-                  pointHoverRadius: 4
-                },
-                {
-                  label: 'Polygon (7-day avg)',
-                  data: smoothSeries(data.top5Share.polygon, 7),
-                  borderColor: '#58a6ff',
-                  backgroundColor: 'rgba(88, 166, 255, 0.1)',
-                  borderWidth: 2,
-                  borderDash: [5, 5],
-                  fill: false,
-                  tension: 0.4,
-                  pointRadius: 0,
-                  pointHoverRadius: 4
-                }
-              ]
+              datasets: data.top5Share.series.map((s, i) => ({
+                label: s.label + ' (7-day avg)',
+                data: smoothSeries(s.values, 7),
+                borderColor: top5ShareColors[i % top5ShareColors.length],
+                backgroundColor: 'transparent',
+                borderWidth: 2,
+                borderDash: chainDash(i),
+                fill: false,
+                tension: 0.4,
+                pointRadius: 0,
+                pointHoverRadius: 4
+              }))
             },
             options: {
               ...darkThemeOptions,
@@ -2261,68 +3060,39 @@ app.get('/charts', async (c) => {
           // Chart 10: Net Flow Over Time (Chain Comparison with Positive/Negative Coloring)
           const ctx10 = document.getElementById('netFlowChart').getContext('2d');
 
-          // Split ethereum data into positive and negative
-          const ethPositive = data.netFlow.ethereum.map(v => v >= 0 ? v : null);
-          const ethNegative = data.netFlow.ethereum.map(v => v < 0 ? v : null);
-
-          // Split polygon data into positive and negative
-          const polyPositive = data.netFlow.polygon.map(v => v >= 0 ? v : null);
-          const polyNegative = data.netFlow.polygon.map(v => v < 0 ? v : null);
+          // Split each chain's data into positive and negative series
+          const netFlowDatasets = data.netFlow.series.flatMap((s, i) => [
+            {
+              label: s.label + ' (Positive)',
+              data: s.values.map(v => v !== null && v >= 0 ? v : null),
+              borderColor: '#56d364',
+              backgroundColor: i === 0 ? 'rgba(86, 211, 100, 0.2)' : 'rgba(86, 211, 100, 0.1)',
+              borderWidth: 2,
+              borderDash: chainDash(i),
+              fill: true,
+              tension: 0.3,
+              pointRadius: 0,
+              spanGaps: false
+            },
+            {
+              label: s.label + ' (Negative)',
+              data: s.values.map(v => v !== null && v < 0 ? v : null),
+              borderColor: '#f85149',
+              backgroundColor: i === 0 ? 'rgba(248, 81, 73, 0.2)' : 'rgba(248, 81, 73, 0.1)',
+              borderWidth: 2,
+              borderDash: chainDash(i),
+              fill: true,
+              tension: 0.3,
+              pointRadius: 0,
+              spanGaps: false
+            }
+          ]);
 
           new Chart(ctx10, {
             type: 'line',
             data: {
               labels: data.netFlow.labels,
-              datasets: [
-                {
-                  label: 'Ethereum (Positive)',
-                  data: ethPositive,
-                  borderColor: '#56d364',
-                  backgroundColor: 'rgba(86, 211, 100, 0.2)',
-                  borderWidth: 2,
-                  borderDash: [],
-                  fill: true,
-                  tension: 0.3,
-                  pointRadius: 0,
-                  spanGaps: false
-                },
-                {
-                  label: 'Ethereum (Negative)',
-                  data: ethNegative,
-                  borderColor: '#f85149',
-                  backgroundColor: 'rgba(248, 81, 73, 0.2)',
-                  borderWidth: 2,
-                  borderDash: [],
-                  fill: true,
-                  tension: 0.3,
-                  pointRadius: 0,
-                  spanGaps: false
-                },
-                {
-                  label: 'Polygon (Positive)',
-                  data: polyPositive,
-                  borderColor: '#56d364',
-                  backgroundColor: 'rgba(86, 211, 100, 0.1)',
-                  borderWidth: 2,
-                  borderDash: [5, 5],
-                  fill: true,
-                  tension: 0.3,
-                  pointRadius: 0,
-                  spanGaps: false
-                },
-                {
-                  label: 'Polygon (Negative)',
-                  data: polyNegative,
-                  borderColor: '#f85149',
-                  backgroundColor: 'rgba(248, 81, 73, 0.1)',
-                  borderWidth: 2,
-                  borderDash: [5, 5],
-                  fill: true,
-                  tension: 0.3,
-                  pointRadius: 0,
-                  spanGaps: false
-                }
-              ]
+              datasets: netFlowDatasets
             },
             options: {
               ...darkThemeOptions,
@@ -2340,6 +3110,92 @@ app.get('/charts', async (c) => {
               }
             }
           });
+
+          // Charts 11-13: Anonymity set, tree growth and cumulative commitments (counts, no decimals)
+          const anonymityColors = ['#58a6ff', '#a371f7', '#56d364', '#ffa657'];
+          const countOptions = {
+            ...darkThemeOptions,
+            scales: {
+              ...darkThemeOptions.scales,
+              y: {
+                ...darkThemeOptions.scales.y,
+                beginAtZero: true,
+                ticks: {
+                  color: '#7d8590',
+                  callback: function(value) {
+                    return value >= 1e3 ? formatNumber(value) : value;
+                  }
+                }
+              }
+            }
+          };
+          const countLines = (series) => series.map((s, i) => ({
+            label: s.label,
+            data: s.values,
+            borderColor: anonymityColors[i % anonymityColors.length],
+            backgroundColor: 'transparent',
+            borderWidth: 2,
+            fill: false,
+            tension: 0,
+            pointRadius: 0,
+            pointHoverRadius: 4,
+            spanGaps: true
+          }));
+
+          new Chart(document.getElementById('anonymitySetChart').getContext('2d'), {
+            type: 'line',
+            data: { labels: data.anonymitySet.labels, datasets: countLines(data.anonymitySet.series) },
+            options: countOptions
+          });
+
+          new Chart(document.getElementById('treeGrowthChart').getContext('2d'), {
+            type: 'line',
+            data: { labels: data.treeGrowth.labels, datasets: countLines(data.treeGrowth.series) },
+            options: countOptions
+          });
+
+          new Chart(document.getElementById('cumulativeCommitmentsChart').getContext('2d'), {
+            type: 'line',
+            data: { labels: data.cumulativeCommitments.labels, datasets: countLines(data.cumulativeCommitments.series) },
+            options: countOptions
+          });
+
+          // Chart 14: Shielded TVL (stacked by token, USD)
+          const tvlColors = ['#58a6ff', '#56d364', '#a371f7', '#ffa657', '#f778ba', '#79c0ff', '#d29922', '#7d8590'];
+          new Chart(document.getElementById('shieldedTvlChart').getContext('2d'), {
+            type: 'line',
+            data: {
+              labels: data.shieldedTvl.labels,
+              datasets: data.shieldedTvl.series.map((s, i) => ({
+                label: s.label,
+                data: s.values,
+                borderColor: tvlColors[i % tvlColors.length],
+                backgroundColor: tvlColors[i % tvlColors.length] + '59',
+                borderWidth: 1,
+                fill: 'stack',
+                tension: 0,
+                pointRadius: 0,
+                pointHoverRadius: 4
+              }))
+            },
+            options: {
+              ...darkThemeOptions,
+              scales: {
+                ...darkThemeOptions.scales,
+                y: {
+                  ...darkThemeOptions.scales.y,
+                  stacked: true,
+                  beginAtZero: true,
+                  ticks: {
+                    color: '#7d8590',
+                    callback: function(value) {
+                      return '$' + formatNumber(value);
+                    }
+                  }
+                }
+              }
+            }
+          });
         })();
       `}} />
     </section>